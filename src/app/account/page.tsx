@@ -0,0 +1,370 @@
+"use client";
+
+/**
+ * Account Settings Page
+ *
+ * Lets the signed-in user edit their profile, review and revoke their
+ * sessions for this app, and sign out of every device.
+ */
+
+import { useCallback, useEffect, useState } from "react";
+import Image from "next/image";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import {
+  ProtectedRoute,
+  useElizaAuth,
+  useElizaClient,
+  type AuthSession,
+} from "@/components/eliza";
+import {
+  ArrowLeft,
+  Check,
+  Loader2,
+  LogOut,
+  Monitor,
+  RefreshCw,
+  User,
+} from "lucide-react";
+
+export default function AccountPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-[#09090b] px-4 py-10">
+        <div className="max-w-2xl mx-auto space-y-6">
+          <div className="space-y-2">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Link>
+            <h1 className="text-2xl font-bold text-white">Account</h1>
+          </div>
+
+          <ProfileCard />
+          <SessionsCard />
+          <SignOutEverywhereCard />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+// ============================================================================
+// Profile
+// ============================================================================
+
+function ProfileCard() {
+  const { user } = useElizaAuth();
+  const { account } = useElizaClient();
+  const [name, setName] = useState(user?.name ?? "");
+  const [avatar, setAvatar] = useState(user?.avatar ?? "");
+  const [status, setStatus] = useState<"idle" | "saving" | "saved">("idle");
+  const [error, setError] = useState<string | null>(null);
+
+  if (!user) return null;
+
+  const dirty = name !== (user.name ?? "") || avatar !== (user.avatar ?? "");
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setStatus("saving");
+    setError(null);
+    try {
+      await account.updateProfile({
+        name: name.trim(),
+        avatar: avatar.trim() || null,
+      });
+      setStatus("saved");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to update profile");
+      setStatus("idle");
+    }
+  };
+
+  return (
+    <form onSubmit={handleSave} className="card-eliza space-y-5">
+      <h2 className="text-lg font-medium text-white">Profile</h2>
+
+      <div className="flex items-center gap-4">
+        {avatar ? (
+          <Image
+            src={avatar}
+            alt={name || "Avatar"}
+            width={64}
+            height={64}
+            unoptimized
+            className="h-16 w-16 rounded-full object-cover"
+          />
+        ) : (
+          <div className="h-16 w-16 rounded-full bg-gradient-to-br from-eliza-orange to-orange-600 flex items-center justify-center">
+            <User className="h-7 w-7 text-white" />
+          </div>
+        )}
+        <div className="min-w-0">
+          <p className="text-white font-medium truncate">
+            {user.name || "User"}
+          </p>
+          {user.email && (
+            <p className="text-sm text-gray-500 truncate">{user.email}</p>
+          )}
+          <p className="text-xs text-gray-600">
+            Member since {new Date(user.createdAt).toLocaleDateString()}
+          </p>
+        </div>
+      </div>
+
+      <label className="block space-y-2">
+        <span className="text-sm text-gray-400">Display name</span>
+        <input
+          value={name}
+          onChange={(e) => {
+            setName(e.target.value);
+            setStatus("idle");
+          }}
+          placeholder="Your name"
+          className="input-eliza"
+        />
+      </label>
+
+      <label className="block space-y-2">
+        <span className="text-sm text-gray-400">Avatar URL</span>
+        <input
+          type="url"
+          value={avatar}
+          onChange={(e) => {
+            setAvatar(e.target.value);
+            setStatus("idle");
+          }}
+          placeholder="https://..."
+          className="input-eliza"
+        />
+      </label>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex items-center gap-3">
+        <button
+          type="submit"
+          disabled={!dirty || status === "saving"}
+          className="btn-eliza inline-flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {status === "saving" && <Loader2 className="h-4 w-4 animate-spin" />}
+          Save changes
+        </button>
+        {status === "saved" && !dirty && (
+          <span className="inline-flex items-center gap-1 text-sm text-emerald-400">
+            <Check className="h-4 w-4" />
+            Saved
+          </span>
+        )}
+      </div>
+    </form>
+  );
+}
+
+// ============================================================================
+// Sessions
+// ============================================================================
+
+/** "Chrome on macOS" from a user agent string */
+function describeDevice(userAgent?: string): string {
+  if (!userAgent) return "Unknown device";
+
+  const browser =
+    [
+      ["Edg/", "Edge"],
+      ["Firefox/", "Firefox"],
+      ["Chrome/", "Chrome"],
+      ["Safari/", "Safari"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "Browser";
+  const os =
+    [
+      ["iPhone", "iOS"],
+      ["iPad", "iPadOS"],
+      ["Android", "Android"],
+      ["Mac OS X", "macOS"],
+      ["Windows", "Windows"],
+      ["Linux", "Linux"],
+    ].find(([token]) => userAgent.includes(token))?.[1] ?? "unknown OS";
+
+  return `${browser} on ${os}`;
+}
+
+function SessionsCard() {
+  const { account } = useElizaClient();
+  const [sessions, setSessions] = useState<AuthSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSessions = useCallback(async () => {
+    setLoading(true);
+    try {
+      setSessions(await account.listSessions());
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to fetch sessions");
+    } finally {
+      setLoading(false);
+    }
+  }, [account]);
+
+  useEffect(() => {
+    fetchSessions();
+  }, [fetchSessions]);
+
+  const handleRevoke = async (sessionId: string) => {
+    setRevoking(sessionId);
+    try {
+      await account.revokeSession(sessionId);
+      setSessions((prev) => prev.filter((s) => s.id !== sessionId));
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to revoke session");
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  return (
+    <div className="card-eliza space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-medium text-white">Active sessions</h2>
+        <button
+          onClick={fetchSessions}
+          disabled={loading}
+          className="p-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-colors disabled:opacity-50"
+          title="Refresh"
+        >
+          <RefreshCw className={`h-4 w-4 ${loading ? "animate-spin" : ""}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {loading && sessions.length === 0 ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-6 w-6 animate-spin text-eliza-orange" />
+        </div>
+      ) : sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">No active sessions found.</p>
+      ) : (
+        <ul className="divide-y divide-gray-800">
+          {sessions.map((session) => (
+            <li
+              key={session.id}
+              className="flex items-center justify-between gap-4 py-3"
+            >
+              <div className="flex items-center gap-3 min-w-0">
+                <Monitor className="h-5 w-5 text-gray-500 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm text-white truncate">
+                    {describeDevice(session.userAgent)}
+                    {session.current && (
+                      <span className="ml-2 px-2 py-0.5 rounded-full bg-emerald-500/10 text-emerald-400 text-xs">
+                        This device
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {[
+                      session.location ?? session.ipAddress,
+                      `Last active ${new Date(
+                        session.lastActiveAt ?? session.createdAt,
+                      ).toLocaleString()}`,
+                    ]
+                      .filter(Boolean)
+                      .join(" • ")}
+                  </p>
+                </div>
+              </div>
+              {!session.current && (
+                <button
+                  onClick={() => handleRevoke(session.id)}
+                  disabled={revoking === session.id}
+                  className="px-3 py-1.5 text-sm rounded-lg text-red-400 hover:text-red-300 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+                >
+                  {revoking === session.id ? (
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                  ) : (
+                    "Revoke"
+                  )}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// ============================================================================
+// Sign Out Everywhere
+// ============================================================================
+
+function SignOutEverywhereCard() {
+  const router = useRouter();
+  const { account } = useElizaClient();
+  const [confirming, setConfirming] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleClick = async () => {
+    if (!confirming) {
+      setConfirming(true);
+      return;
+    }
+
+    setLoading(true);
+    setError(null);
+    try {
+      await account.signOutEverywhere();
+      router.push("/");
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to sign out");
+      setLoading(false);
+      setConfirming(false);
+    }
+  };
+
+  return (
+    <div className="card-eliza space-y-4 border-red-500/20">
+      <div className="space-y-1">
+        <h2 className="text-lg font-medium text-white">
+          Sign out of all devices
+        </h2>
+        <p className="text-sm text-gray-400">
+          Ends every session for this app, including this one.
+        </p>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      <div className="flex gap-3">
+        <button
+          onClick={handleClick}
+          disabled={loading}
+          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-red-500/50 text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50"
+        >
+          {loading ? (
+            <Loader2 className="h-4 w-4 animate-spin" />
+          ) : (
+            <LogOut className="h-4 w-4" />
+          )}
+          {confirming ? "Click again to confirm" : "Sign out everywhere"}
+        </button>
+        {confirming && !loading && (
+          <button
+            onClick={() => setConfirming(false)}
+            className="px-4 py-2 rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
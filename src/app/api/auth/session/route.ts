@@ -0,0 +1,72 @@
+/**
+ * Session Cookie Route
+ *
+ * POST   { token } - verify the token with Eliza Cloud and store it in an
+ *                    httpOnly session cookie (401 for a rejected token,
+ *                    503 when Eliza Cloud can't be reached)
+ * DELETE           - clear the session cookie
+ *
+ * Enable with NEXT_PUBLIC_ELIZA_SESSION_ENDPOINT=/api/auth/session; the
+ * SDK then calls this after sign-in, token refresh and sign-out.
+ */
+
+import { NextResponse } from "next/server";
+import {
+  SESSION_COOKIE,
+  isSameOriginRequest,
+  sessionCookieOptions,
+  verifySessionToken,
+} from "@/lib/eliza-session";
+
+export async function POST(request: Request) {
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json(
+      { error: "Cross-origin request rejected" },
+      { status: 403 },
+    );
+  }
+
+  const body = await request.json().catch(() => null);
+  const token = body?.token;
+  if (typeof token !== "string" || !token) {
+    return NextResponse.json({ error: "Missing token" }, { status: 400 });
+  }
+
+  let session;
+  try {
+    session = await verifySessionToken(token);
+  } catch {
+    // Eliza Cloud is down or unreachable; the token may still be valid
+    return NextResponse.json(
+      { error: "Could not verify session, try again later" },
+      { status: 503 },
+    );
+  }
+  if (!session) {
+    return NextResponse.json(
+      { error: "Invalid or expired token" },
+      { status: 401 },
+    );
+  }
+
+  const res = NextResponse.json({ user: session.user });
+  res.cookies.set(
+    SESSION_COOKIE,
+    token,
+    sessionCookieOptions(session.expiresAt),
+  );
+  return res;
+}
+
+export async function DELETE(request: Request) {
+  if (!isSameOriginRequest(request)) {
+    return NextResponse.json(
+      { error: "Cross-origin request rejected" },
+      { status: 403 },
+    );
+  }
+
+  const res = NextResponse.json({ success: true });
+  res.cookies.set(SESSION_COOKIE, "", { ...sessionCookieOptions(), maxAge: 0 });
+  return res;
+}
@@ -4,45 +4,91 @@
  * OAuth Callback Page
  *
  * Handles the redirect from Eliza Cloud after authentication.
- * Stores the token and redirects to the intended destination.
+ * Verifies the sign-in flow, stores the token and redirects to the
+ * intended destination. In a sign-in popup it hands the callback to the
+ * opening tab instead, which closes the popup.
  */
 
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
-import { handleCallback, getPostAuthRedirect } from "@/lib/eliza-auth";
+import {
+  useElizaClient,
+  isAuthFlowError,
+  resolveRedirect,
+  type AuthFlowErrorCode,
+} from "@/components/eliza";
 import { Loader2, CheckCircle, XCircle } from "lucide-react";
 
+const FLOW_ERROR_MESSAGES: Partial<Record<AuthFlowErrorCode, string>> = {
+  STATE_MISMATCH:
+    "This sign-in link wasn't started from this browser, or has already been used. For your security, please sign in again.",
+  FLOW_EXPIRED:
+    "This sign-in attempt took too long and has expired. Please sign in again.",
+  MISSING_TOKEN: "No sign-in credentials were received. Please try again.",
+};
+
 export default function AuthCallbackPage() {
   const router = useRouter();
+  const { auth, config } = useElizaClient();
   const [status, setStatus] = useState<"loading" | "success" | "error">(
     "loading",
   );
   const [error, setError] = useState<string | null>(null);
+  const handled = useRef(false);
 
   useEffect(() => {
+    // A sign-in flow can only be completed once
+    if (handled.current) return;
+    handled.current = true;
+
     async function processCallback() {
       try {
-        const user = await handleCallback();
+        if (auth.isSignInPopup()) {
+          await auth.handleCallback();
+          return;
+        }
+
+        const user = await auth.handleCallback();
 
         if (user) {
           setStatus("success");
           // Small delay to show success state
           await new Promise((resolve) => setTimeout(resolve, 500));
-          // Redirect to intended destination
-          const redirect = getPostAuthRedirect();
-          router.push(redirect);
+          // Redirect to intended destination, if the redirect policy allows it
+          const redirect = resolveRedirect(
+            auth.getPostAuthRedirect(),
+            config.allowedRedirectOrigins,
+          );
+          if (redirect.startsWith("/")) {
+            router.push(redirect);
+          } else {
+            // Allowed external origin
+            window.location.assign(redirect);
+          }
         } else {
           setStatus("error");
           setError("Failed to complete sign in. Please try again.");
         }
       } catch (e) {
         setStatus("error");
-        setError(e instanceof Error ? e.message : "Authentication failed");
+        setError(
+          (isAuthFlowError(e) && FLOW_ERROR_MESSAGES[e.code]) ||
+            (e instanceof Error ? e.message : "Authentication failed"),
+        );
       }
     }
 
     processCallback();
-  }, [router]);
+  }, [router, auth, config]);
+
+  const retrySignIn = async () => {
+    try {
+      // The default target is this page, which can't complete a second time
+      await auth.signIn({ redirectUrl: "/" });
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Sign in failed");
+    }
+  };
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-[#09090b] px-4">
@@ -90,10 +136,7 @@ export default function AuthCallbackPage() {
                 Go Home
               </button>
               <button
-                onClick={() => {
-                  const { signIn } = require("@/lib/eliza-auth");
-                  signIn();
-                }}
+                onClick={retrySignIn}
                 className="px-4 py-2 rounded-lg bg-eliza-orange text-white hover:bg-eliza-orange-hover transition-colors"
               >
                 Try Again
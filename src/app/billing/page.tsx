@@ -0,0 +1,261 @@
+"use client";
+
+/**
+ * Billing Page
+ *
+ * Credit balance, purchases and usage history for the signed-in user.
+ * Checkout sends users back here when they cancel, with a banner to try
+ * again.
+ */
+
+import { Suspense, useCallback, useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter, useSearchParams } from "next/navigation";
+import {
+  CreditBalanceCard,
+  ProtectedRoute,
+  PurchaseCreditsModal,
+  SpendAnalytics,
+  useElizaAuth,
+  useElizaClient,
+  UsageHistoryTable,
+  type HistoryOptions,
+  type PurchaseRecord,
+} from "@/components/eliza";
+import { AlertTriangle, ArrowLeft, Loader2, X } from "lucide-react";
+
+const PAGE_SIZE = 50;
+
+export default function BillingPage() {
+  return (
+    <ProtectedRoute>
+      <div className="min-h-screen bg-[#09090b] px-4 py-10">
+        <div className="max-w-4xl mx-auto space-y-6">
+          <div className="space-y-2">
+            <Link
+              href="/"
+              className="inline-flex items-center gap-1 text-sm text-gray-400 hover:text-white transition-colors"
+            >
+              <ArrowLeft className="h-4 w-4" />
+              Back
+            </Link>
+            <h1 className="text-2xl font-bold text-white">Billing</h1>
+          </div>
+
+          <Suspense fallback={null}>
+            <CheckoutCancelledBanner />
+          </Suspense>
+
+          <CreditBalanceCard />
+          <SpendAnalytics />
+          <PurchaseHistory />
+          <UsageHistoryTable />
+        </div>
+      </div>
+    </ProtectedRoute>
+  );
+}
+
+// ============================================================================
+// Cancelled Checkout
+// ============================================================================
+
+function CheckoutCancelledBanner() {
+  const searchParams = useSearchParams();
+  const router = useRouter();
+  const [showModal, setShowModal] = useState(false);
+
+  if (searchParams.get("checkout") !== "cancelled") return null;
+
+  const dismiss = () => router.replace("/billing");
+
+  return (
+    <>
+      <div
+        role="status"
+        className="flex items-start gap-3 rounded-xl border border-amber-500/30 bg-amber-500/10 p-4"
+      >
+        <AlertTriangle className="h-5 w-5 text-amber-400 flex-shrink-0" />
+        <div className="flex-1 space-y-1">
+          <p className="text-sm font-medium text-white">Checkout cancelled</p>
+          <p className="text-sm text-gray-400">
+            You weren&apos;t charged and your balance is unchanged.{" "}
+            <button
+              onClick={() => setShowModal(true)}
+              className="text-eliza-orange hover:underline"
+            >
+              Try again
+            </button>
+          </p>
+        </div>
+        <button
+          onClick={dismiss}
+          aria-label="Dismiss"
+          className="text-gray-500 transition-colors hover:text-gray-300"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <PurchaseCreditsModal
+        open={showModal}
+        onClose={() => setShowModal(false)}
+      />
+    </>
+  );
+}
+
+// ============================================================================
+// History
+// ============================================================================
+
+/**
+ * Load a history list page by page, `PAGE_SIZE` records at a time.
+ */
+function usePagedHistory<T>(
+  fetchPage: (limit: number, options?: HistoryOptions) => Promise<T[]>,
+) {
+  const { isAuthenticated } = useElizaAuth();
+  const [items, setItems] = useState<T[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [hasMore, setHasMore] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(
+    async (offset: number) => {
+      setLoading(true);
+      try {
+        const page = await fetchPage(PAGE_SIZE, { offset });
+        setItems((prev) => (offset === 0 ? page : [...prev, ...page]));
+        setHasMore(page.length === PAGE_SIZE);
+        setError(null);
+      } catch (e) {
+        setError(e instanceof Error ? e.message : "Failed to load history");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [fetchPage],
+  );
+
+  useEffect(() => {
+    if (isAuthenticated) load(0);
+  }, [isAuthenticated, load]);
+
+  const loadMore = useCallback(() => load(items.length), [load, items.length]);
+
+  return { items, loading, hasMore, error, loadMore };
+}
+
+function formatDate(value: string): string {
+  return new Date(value).toLocaleString(undefined, {
+    dateStyle: "medium",
+    timeStyle: "short",
+  });
+}
+
+const STATUS_CLASSES: Record<PurchaseRecord["status"], string> = {
+  completed: "bg-emerald-500/10 text-emerald-400",
+  pending: "bg-amber-500/10 text-amber-400",
+  failed: "bg-red-500/10 text-red-400",
+};
+
+function PurchaseHistory() {
+  const { credits } = useElizaClient();
+  const { items, loading, hasMore, error, loadMore } = usePagedHistory(
+    credits.getPurchaseHistory,
+  );
+
+  return (
+    <HistoryCard
+      title="Purchases"
+      empty="No purchases yet."
+      count={items.length}
+      loading={loading}
+      hasMore={hasMore}
+      error={error}
+      onLoadMore={loadMore}
+    >
+      <thead>
+        <tr className="text-left text-gray-500">
+          <th className="py-2 pr-4 font-normal">Date</th>
+          <th className="py-2 pr-4 font-normal">Status</th>
+          <th className="py-2 text-right font-normal">Amount</th>
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-gray-800">
+        {items.map((purchase) => (
+          <tr key={purchase.id}>
+            <td className="py-2 pr-4 text-gray-300">
+              {formatDate(purchase.createdAt)}
+            </td>
+            <td className="py-2 pr-4">
+              <span
+                className={`px-2 py-0.5 rounded-full text-xs capitalize ${STATUS_CLASSES[purchase.status]}`}
+              >
+                {purchase.status}
+              </span>
+            </td>
+            <td className="py-2 text-right text-white">
+              ${purchase.amount.toFixed(2)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </HistoryCard>
+  );
+}
+
+function HistoryCard({
+  title,
+  empty,
+  count,
+  loading,
+  hasMore,
+  error,
+  onLoadMore,
+  children,
+}: {
+  title: string;
+  empty: string;
+  count: number;
+  loading: boolean;
+  hasMore: boolean;
+  error: string | null;
+  onLoadMore: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className="card-eliza space-y-4">
+      <h2 className="text-lg font-medium text-white">{title}</h2>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {count === 0 ? (
+        loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-eliza-orange" />
+          </div>
+        ) : (
+          !error && <p className="text-sm text-gray-500">{empty}</p>
+        )
+      ) : (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">{children}</table>
+          </div>
+          {hasMore && (
+            <button
+              onClick={onLoadMore}
+              disabled={loading}
+              className="btn-eliza-outline w-full inline-flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+              Load more
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -4,21 +4,26 @@
  * Billing Success Page
  *
  * Shown after a successful credit purchase.
- * Verifies the purchase and shows confirmation.
+ * Verifies the purchase and shows confirmation. When the purchase was
+ * started because a request ran out of credits, sends the user back to
+ * that page, where the request is sent again.
  */
 
 import { Suspense, useEffect, useState } from "react";
 import { useSearchParams, useRouter } from "next/navigation";
-import { verifyPurchase } from "@/lib/eliza-credits";
+import { resolveRedirect, useElizaClient } from "@/components/eliza";
+import { markPendingRetryReady } from "@/lib/eliza-topup";
 import { Loader2, CheckCircle, XCircle, ArrowRight } from "lucide-react";
 
 function BillingSuccessContent() {
   const searchParams = useSearchParams();
   const router = useRouter();
+  const { credits } = useElizaClient();
   const [status, setStatus] = useState<"loading" | "success" | "error">(
     "loading",
   );
   const [error, setError] = useState<string | null>(null);
+  const [returnTo, setReturnTo] = useState<string | null>(null);
 
   useEffect(() => {
     async function verify() {
@@ -31,10 +36,19 @@ function BillingSuccessContent() {
       }
 
       try {
-        const success = await verifyPurchase(sessionId);
+        const success = await credits.verifyPurchase(sessionId);
 
         if (success) {
           setStatus("success");
+          const pending = markPendingRetryReady();
+          if (pending) {
+            // Pending requests are always on this app's own pages
+            const target = resolveRedirect(pending.returnTo);
+            setReturnTo(target);
+            // Small delay to show success state
+            await new Promise((resolve) => setTimeout(resolve, 1500));
+            router.push(target);
+          }
         } else {
           setStatus("error");
           setError(
@@ -48,7 +62,7 @@ function BillingSuccessContent() {
     }
 
     verify();
-  }, [searchParams]);
+  }, [searchParams, credits, router]);
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-[#09090b] px-4">
@@ -80,12 +94,14 @@ function BillingSuccessContent() {
                 Purchase Successful!
               </h1>
               <p className="text-gray-400">
-                Your credits have been added to your account.
+                {returnTo
+                  ? "Your credits have been added. Taking you back to finish your request..."
+                  : "Your credits have been added to your account."}
               </p>
             </div>
             <div className="pt-4">
               <button
-                onClick={() => router.push("/")}
+                onClick={() => router.push(returnTo ?? "/")}
                 className="inline-flex items-center gap-2 px-6 py-3 rounded-lg bg-eliza-orange text-white font-medium hover:bg-eliza-orange-hover transition-colors"
               >
                 Continue
@@ -1,6 +1,6 @@
 import type { Metadata } from "next";
 import { Outfit, JetBrains_Mono } from "next/font/google";
-import { ElizaProvider } from "@/components/eliza";
+import { ElizaProvider, ElizaDevtools, TopUpModal } from "@/components/eliza";
 import "./globals.css";
 
 const outfit = Outfit({
@@ -42,7 +42,11 @@ export default function RootLayout({
       <body
         className={`${outfit.variable} ${jetbrainsMono.variable} font-sans antialiased`}
       >
-        <ElizaProvider>{children}</ElizaProvider>
+        <ElizaProvider>
+          {children}
+          <TopUpModal />
+          <ElizaDevtools />
+        </ElizaProvider>
       </body>
     </html>
   );
@@ -13,16 +13,19 @@ import { useState, useRef, useEffect } from "react";
 import { useChatStream } from "@/hooks/use-eliza";
 import {
   useElizaAuth,
-  useAppCredits,
   SignInButton,
   UserMenu,
   AppCreditDisplay,
   AppLowBalanceWarning,
   PurchaseCreditsButton,
+  PurchaseCreditsModal,
+  InsufficientCreditsError,
+  useCreditGate,
+  CostEstimate,
 } from "@/components/eliza";
 import {
   Send,
-  Loader2,
+  Square,
   Zap,
   Bot,
   User,
@@ -376,8 +379,16 @@ function FeatureCard({
 function ChatInterface() {
   const [messages, setMessages] = useState<Message[]>([]);
   const [input, setInput] = useState("");
-  const { stream, loading } = useChatStream();
-  const { balance, hasLowBalance } = useAppCredits();
+  const { stream, abort, loading, retrying } = useChatStream({
+    // Restore the conversation when a message is sent again after a top-up
+    onRecovered: (reply, sent) =>
+      setMessages([
+        ...(sent as Message[]),
+        { role: "assistant", content: reply },
+      ]),
+  });
+  const creditGate = useCreditGate(1);
+  const [showTopUp, setShowTopUp] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -387,8 +398,8 @@ function ChatInterface() {
   const handleSend = async () => {
     if (!input.trim() || loading) return;
 
-    if (hasLowBalance && balance !== null && balance < 1) {
-      alert("Please purchase more credits to continue.");
+    if (!creditGate.loading && !creditGate.allowed) {
+      setShowTopUp(true);
       return;
     }
 
@@ -414,11 +425,11 @@ function ChatInterface() {
       const errorMsg =
         error instanceof Error ? error.message : "Something went wrong";
 
-      if (errorMsg.includes("INSUFFICIENT_CREDITS")) {
+      if (error instanceof InsufficientCreditsError) {
         setMessages((prev) => {
           const updated = [...prev];
           updated[updated.length - 1].content =
-            "You've run out of credits. Please top up to continue.";
+            "You've run out of credits. Top up and this message will be sent again.";
           return updated;
         });
       } else {
@@ -477,23 +488,52 @@ function ChatInterface() {
                 disabled={loading}
               />
             </div>
-            <button
-              onClick={handleSend}
-              disabled={loading || !input.trim()}
-              className="h-12 w-12 rounded-xl bg-gradient-to-br from-eliza-orange to-orange-600 text-white flex items-center justify-center hover:from-eliza-orange-hover hover:to-orange-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all glow-orange"
-            >
-              {loading ? (
-                <Loader2 className="h-5 w-5 animate-spin" />
-              ) : (
+            {loading ? (
+              <button
+                onClick={abort}
+                title="Stop generating"
+                className="h-12 w-12 rounded-xl border border-white/10 text-gray-300 flex items-center justify-center hover:bg-white/5 hover:text-white transition-all"
+              >
+                <Square className="h-4 w-4 fill-current" />
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="h-12 w-12 rounded-xl bg-gradient-to-br from-eliza-orange to-orange-600 text-white flex items-center justify-center hover:from-eliza-orange-hover hover:to-orange-700 disabled:opacity-40 disabled:cursor-not-allowed transition-all glow-orange"
+              >
                 <Send className="h-5 w-5" />
-              )}
-            </button>
+              </button>
+            )}
           </div>
         </div>
-        <p className="text-xs text-gray-600 mt-3 text-center">
-          Powered by Eliza Cloud • Each message uses credits
+        <p className="text-xs text-gray-600 mt-3 flex items-center justify-center gap-2">
+          {retrying ? (
+            `Connection hiccup, retrying (${retrying.attempt}/${retrying.maxAttempts})...`
+          ) : input.trim() ? (
+            <>
+              This message costs
+              <CostEstimate
+                request={{
+                  operation: "chat",
+                  messages: [
+                    ...messages,
+                    { role: "user", content: input.trim() },
+                  ],
+                }}
+                balance={creditGate.loading ? undefined : creditGate.balance}
+              />
+            </>
+          ) : (
+            "Powered by Eliza Cloud • Each message uses credits"
+          )}
         </p>
       </div>
+
+      <PurchaseCreditsModal
+        open={showTopUp}
+        onClose={() => setShowTopUp(false)}
+      />
     </div>
   );
 }
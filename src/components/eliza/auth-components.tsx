@@ -7,14 +7,12 @@
  */
 
 import { type ReactNode, useState, useEffect } from "react";
+import Link from "next/link";
 import { useElizaAuth } from "@/hooks/use-eliza-auth";
-import {
-  signIn,
-  signOut,
-  isAppAuthAvailable,
-  type ElizaUser,
-  type SignInOptions,
-} from "@/lib/eliza-auth";
+import { useElizaClient } from "./eliza-provider";
+import type { SignInOptions } from "@/lib/eliza-auth";
+import { isAuthFlowError } from "@/lib/eliza-errors";
+import { checkAccess, type AccessRequirement } from "@/lib/eliza-access";
 import {
   Loader2,
   LogOut,
@@ -22,6 +20,8 @@ import {
   ChevronDown,
   LogIn,
   AlertCircle,
+  ShieldAlert,
+  Settings,
 } from "lucide-react";
 
 // ============================================================================
@@ -35,17 +35,24 @@ interface SignInButtonProps {
   className?: string;
   /** Options passed to signIn */
   signInOptions?: SignInOptions;
+  /**
+   * "popup" signs in without leaving the page, keeping unsaved input.
+   * @default "redirect"
+   */
+  mode?: SignInOptions["mode"];
   /** Show loading spinner while auth is loading */
   showLoading?: boolean;
 }
 
 /**
  * Sign in with Eliza Cloud button.
- * Redirects user to Eliza Cloud login then back to your app.
+ * Redirects user to Eliza Cloud login then back to your app, or opens the
+ * login in a popup with `mode="popup"`.
  *
  * @example
  * <SignInButton />
  * <SignInButton variant="outline">Login</SignInButton>
+ * <SignInButton mode="popup" />
  */
 export function SignInButton({
   children,
@@ -53,11 +60,13 @@ export function SignInButton({
   size = "md",
   className = "",
   signInOptions,
+  mode = "redirect",
   showLoading = true,
 }: SignInButtonProps) {
   const { isAuthenticated, loading } = useElizaAuth();
+  const { auth } = useElizaClient();
   const [error, setError] = useState<string | null>(null);
-  const appAuthAvailable = isAppAuthAvailable();
+  const appAuthAvailable = auth.isAppAuthAvailable();
 
   // Don't show if already authenticated
   if (isAuthenticated) return null;
@@ -75,11 +84,13 @@ export function SignInButton({
     ghost: "text-gray-200 hover:bg-gray-800",
   };
 
-  const handleClick = () => {
+  const handleClick = async () => {
     try {
       setError(null);
-      signIn(signInOptions);
+      await auth.signIn({ ...signInOptions, mode });
     } catch (err) {
+      // Closing the popup is a cancel, not an error
+      if (isAuthFlowError(err) && err.code === "POPUP_CLOSED") return;
       const message = err instanceof Error ? err.message : "Sign in failed";
       setError(message);
       console.error("[SignInButton]", message);
@@ -176,6 +187,7 @@ export function SignOutButton({
   variant = "ghost",
   className = "",
 }: SignOutButtonProps) {
+  const { auth } = useElizaClient();
   const [loading, setLoading] = useState(false);
 
   const variantClasses = {
@@ -187,7 +199,11 @@ export function SignOutButton({
 
   const handleClick = async () => {
     setLoading(true);
-    await signOut();
+    try {
+      await auth.signOut();
+    } finally {
+      setLoading(false);
+    }
   };
 
   return (
@@ -221,15 +237,21 @@ interface UserMenuProps {
   className?: string;
   /** Custom avatar size in pixels */
   avatarSize?: number;
+  /** Account settings page linked from the menu, or null to hide the link */
+  accountHref?: string | null;
 }
 
 /**
- * User menu dropdown with avatar, name, and sign out.
+ * User menu dropdown with avatar, name, account settings link, and sign out.
  *
  * @example
  * <UserMenu />
  */
-export function UserMenu({ className = "", avatarSize = 32 }: UserMenuProps) {
+export function UserMenu({
+  className = "",
+  avatarSize = 32,
+  accountHref = "/account",
+}: UserMenuProps) {
   const { user, isAuthenticated, loading } = useElizaAuth();
   const [open, setOpen] = useState(false);
 
@@ -303,6 +325,16 @@ export function UserMenu({ className = "", avatarSize = 32 }: UserMenuProps) {
             )}
           </div>
           <div className="p-2">
+            {accountHref && (
+              <Link
+                href={accountHref}
+                onClick={() => setOpen(false)}
+                className="flex items-center gap-2 px-3 py-2 text-sm font-medium rounded-lg text-gray-400 hover:text-white hover:bg-gray-800 transition-colors"
+              >
+                <Settings className="h-4 w-4" />
+                Account settings
+              </Link>
+            )}
             <SignOutButton variant="ghost" className="w-full justify-start" />
           </div>
         </div>
@@ -315,17 +347,21 @@ export function UserMenu({ className = "", avatarSize = 32 }: UserMenuProps) {
 // Protected Route
 // ============================================================================
 
-interface ProtectedRouteProps {
+interface ProtectedRouteProps extends AccessRequirement {
   children: ReactNode;
   /** Custom fallback when not authenticated */
   fallback?: ReactNode;
   /** Custom loading state */
   loadingFallback?: ReactNode;
+  /** Custom fallback when signed in but lacking the required access */
+  forbiddenFallback?: ReactNode;
 }
 
 /**
  * Protects routes that require authentication.
- * Shows sign-in prompt if not authenticated.
+ * Shows sign-in prompt if not authenticated, and a forbidden state if the
+ * user lacks `requireRole` (any of), `requirePermission` (all of) or fails
+ * `predicate`.
  *
  * @example
  * // In a layout or page
@@ -338,13 +374,21 @@ interface ProtectedRouteProps {
  * <ProtectedRoute fallback={<CustomLoginPage />}>
  *   <AdminPanel />
  * </ProtectedRoute>
+ *
+ * @example
+ * // Admins only
+ * <ProtectedRoute requireRole="admin" forbiddenFallback={<NotAllowed />}>
+ *   <AdminPanel />
+ * </ProtectedRoute>
  */
 export function ProtectedRoute({
   children,
   fallback,
   loadingFallback,
+  forbiddenFallback,
+  ...requirement
 }: ProtectedRouteProps) {
-  const { isAuthenticated, loading } = useElizaAuth();
+  const { user, isAuthenticated, loading } = useElizaAuth();
 
   if (loading) {
     return loadingFallback || <DefaultLoadingState />;
@@ -354,9 +398,38 @@ export function ProtectedRoute({
     return fallback || <DefaultLoginPrompt />;
   }
 
+  if (!checkAccess(user, requirement)) {
+    return forbiddenFallback || <DefaultForbiddenState />;
+  }
+
   return <>{children}</>;
 }
 
+// ============================================================================
+// Permission Gate
+// ============================================================================
+
+interface CanProps extends AccessRequirement {
+  children: ReactNode;
+  /** Rendered instead when access is missing (including signed out) */
+  fallback?: ReactNode;
+}
+
+/**
+ * Render part of a page only for users with the required access.
+ * Unlike ProtectedRoute it shows nothing (or `fallback`) instead of a
+ * full-page prompt.
+ *
+ * @example
+ * <Can requirePermission="projects:delete">
+ *   <DeleteButton />
+ * </Can>
+ */
+export function Can({ children, fallback = null, ...requirement }: CanProps) {
+  const { user } = useElizaAuth();
+  return <>{checkAccess(user, requirement) ? children : fallback}</>;
+}
+
 // ============================================================================
 // Default Fallback Components
 // ============================================================================
@@ -373,7 +446,7 @@ function DefaultLoadingState() {
 }
 
 function DefaultLoginPrompt() {
-  const appAuthAvailable = isAppAuthAvailable();
+  const appAuthAvailable = useElizaClient().auth.isAppAuthAvailable();
 
   return (
     <div className="min-h-screen flex items-center justify-center bg-gray-950 px-4">
@@ -422,6 +495,31 @@ function DefaultLoginPrompt() {
   );
 }
 
+function DefaultForbiddenState() {
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gray-950 px-4">
+      <div className="max-w-md w-full text-center space-y-6">
+        <ShieldAlert className="h-12 w-12 text-red-400 mx-auto" />
+        <div className="space-y-2">
+          <h1 className="text-2xl font-bold text-white">Access denied</h1>
+          <p className="text-gray-400">
+            Your account doesn&apos;t have permission to view this page.
+          </p>
+        </div>
+        <div className="flex flex-col sm:flex-row gap-3 justify-center">
+          <Link
+            href="/"
+            className="px-4 py-2 rounded-lg border border-gray-700 text-gray-200 hover:bg-gray-800 transition-colors"
+          >
+            Go Home
+          </Link>
+          <SignOutButton variant="outline">Switch account</SignOutButton>
+        </div>
+      </div>
+    </div>
+  );
+}
+
 // ============================================================================
 // Auth Status Badge
 // ============================================================================
@@ -432,7 +530,8 @@ interface AuthStatusProps {
 
 /**
  * Shows authentication status indicator.
- * Useful for debugging or header displays.
+ * Useful for header displays; for token and request details during
+ * development, use `ElizaDevtools`.
  */
 export function AuthStatus({ className = "" }: AuthStatusProps) {
   const { isAuthenticated, loading, user } = useElizaAuth();
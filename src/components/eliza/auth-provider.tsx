@@ -0,0 +1,161 @@
+"use client";
+
+/**
+ * ElizaAuthProvider - Single source of truth for auth state.
+ *
+ * Rendered by ElizaProvider. Fetches the user once, runs the one session
+ * refresh loop and reacts to auth events, so every `useElizaAuth`,
+ * `UserMenu`, `AuthStatus` and `ProtectedRoute` sees the same state.
+ * Auth events arrive from other tabs too, so signing in or out anywhere
+ * updates every open tab without a reload.
+ */
+
+import {
+  createContext,
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  type ReactNode,
+} from "react";
+import type { ElizaClient } from "@/lib/eliza-client";
+import type { ElizaUser, SignInOptions } from "@/lib/eliza-auth";
+import type { UseElizaAuthReturn } from "@/hooks/use-eliza-auth";
+
+// ============================================================================
+// Context
+// ============================================================================
+
+export const ElizaAuthContext = createContext<UseElizaAuthReturn | null>(null);
+
+// ============================================================================
+// Provider Component
+// ============================================================================
+
+interface ElizaAuthProviderProps {
+  children: ReactNode;
+  client: ElizaClient;
+  /**
+   * Session refresh interval in ms when the token's expiry is unknown.
+   * JWTs are refreshed shortly before they expire. 0 disables refresh.
+   * @default 300000 (5 minutes)
+   */
+  refreshInterval?: number;
+}
+
+export function ElizaAuthProvider({
+  children,
+  client,
+  refreshInterval = 5 * 60 * 1000,
+}: ElizaAuthProviderProps) {
+  const { auth } = client;
+
+  const [user, setUser] = useState<ElizaUser | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Whether a token is stored; drives the refresh loop
+  const [hasToken, setHasToken] = useState(false);
+
+  // Fetch user data
+  const fetchUser = useCallback(async () => {
+    // Read the token live, another tab may have changed it
+    const authenticated = auth.isAuthenticated();
+    setHasToken(authenticated);
+    if (!authenticated) {
+      setUser(null);
+      setLoading(false);
+      return;
+    }
+
+    try {
+      const userData = await auth.getUser();
+      setUser(userData);
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Failed to fetch user");
+      setUser(null);
+    } finally {
+      setLoading(false);
+    }
+  }, [auth]);
+
+  // Initial fetch
+  useEffect(() => {
+    fetchUser();
+  }, [fetchUser]);
+
+  // Follow auth events from this tab and the others
+  useEffect(() => {
+    return auth.subscribe((event) => {
+      switch (event.type) {
+        case "session-expired":
+          setHasToken(false);
+          setUser(null);
+          setError("Your session has expired. Please sign in again.");
+          break;
+        case "signed-out":
+          setHasToken(false);
+          setUser(null);
+          setError(null);
+          setLoading(false);
+          break;
+        case "signed-in":
+        case "token-refreshed":
+          fetchUser();
+          break;
+        case "user-updated":
+          setUser(event.user);
+          break;
+      }
+    });
+  }, [auth, fetchUser]);
+
+  // Session refresh
+  useEffect(() => {
+    if (!hasToken) return;
+    return auth.startAutoRefresh({ fallbackIntervalMs: refreshInterval });
+  }, [auth, hasToken, refreshInterval]);
+
+  // Sign in handler
+  const signIn = useCallback(
+    (options?: SignInOptions) => auth.signIn(options),
+    [auth],
+  );
+
+  // Sign out handler
+  const signOut = useCallback(async () => {
+    setLoading(true);
+    try {
+      await auth.signOut();
+    } finally {
+      setUser(null);
+      setLoading(false);
+    }
+  }, [auth]);
+
+  // Refresh handler
+  const refresh = useCallback(async () => {
+    setLoading(true);
+    await fetchUser();
+  }, [fetchUser]);
+
+  const value = useMemo(
+    () => ({
+      user,
+      isAuthenticated: !!user,
+      loading,
+      error,
+      signIn,
+      signOut,
+      refresh,
+    }),
+    [user, loading, error, signIn, signOut, refresh],
+  );
+
+  return (
+    <ElizaAuthContext.Provider value={value}>
+      {children}
+    </ElizaAuthContext.Provider>
+  );
+}
@@ -7,10 +7,27 @@
  */
 
 import { type ReactNode, useState } from "react";
-import { useAppCredits } from "@/hooks/use-eliza-credits";
-import { CREDIT_PRESETS } from "@/lib/eliza-credits";
+import { usePathname } from "next/navigation";
+import {
+  useAppCredits,
+  useCostEstimate,
+  useCreditGate,
+  useUsageHistory,
+} from "@/hooks/use-eliza-credits";
+import { CREDIT_PRESETS, type PurchaseParams } from "@/lib/eliza-credits";
+import type { CostEstimateRequest } from "@/lib/eliza-pricing";
+import { savePendingRetry, type NeedsTopUp } from "@/lib/eliza-topup";
+import {
+  dayKey,
+  groupUsage,
+  totalCredits,
+  usageToCsv,
+  usageToJson,
+  type UsageGroupBy,
+} from "@/lib/eliza-usage";
 import {
   Coins,
+  Download,
   AlertTriangle,
   Plus,
   Loader2,
@@ -18,6 +35,7 @@ import {
   X,
   Check,
 } from "lucide-react";
+import { useElizaTopUp } from "./eliza-provider";
 
 // ============================================================================
 // App Credit Display
@@ -231,6 +249,16 @@ interface PurchaseCreditsModalProps {
   onClose: () => void;
   /** Custom preset amounts */
   presets?: number[];
+  /** Custom heading */
+  title?: string;
+  /** Shown above the amounts, e.g. why credits are needed */
+  description?: ReactNode;
+  /** Preselect the smallest preset covering this amount */
+  minAmount?: number;
+  /** Checkout redirect URLs */
+  purchaseOptions?: Omit<PurchaseParams, "amount">;
+  /** Called just before redirecting to checkout */
+  onCheckout?: () => void;
 }
 
 /**
@@ -246,9 +274,18 @@ export function PurchaseCreditsModal({
   open,
   onClose,
   presets = CREDIT_PRESETS.map((p) => p.amount),
+  title = "Purchase Credits",
+  description,
+  minAmount,
+  purchaseOptions,
+  onCheckout,
 }: PurchaseCreditsModalProps) {
   const { balance, purchase } = useAppCredits();
-  const [selected, setSelected] = useState<number>(presets[1] || 10);
+  const [selected, setSelected] = useState<number>(() =>
+    minAmount !== undefined
+      ? (presets.find((amount) => amount >= minAmount) ?? presets.at(-1)!)
+      : presets[1] || 10,
+  );
   const [loading, setLoading] = useState(false);
 
   if (!open) return null;
@@ -256,7 +293,8 @@ export function PurchaseCreditsModal({
   const handlePurchase = async () => {
     setLoading(true);
     try {
-      await purchase(selected);
+      onCheckout?.();
+      await purchase(selected, purchaseOptions);
     } catch (e) {
       console.error("Purchase failed:", e);
       setLoading(false);
@@ -276,9 +314,7 @@ export function PurchaseCreditsModal({
         {/* Header */}
         <div className="flex items-center justify-between p-6 border-b border-gray-800">
           <div>
-            <h2 className="text-lg font-semibold text-white">
-              Purchase Credits
-            </h2>
+            <h2 className="text-lg font-semibold text-white">{title}</h2>
             <p className="text-sm text-gray-400">
               Current balance: ${balance.toFixed(2)}
             </p>
@@ -293,6 +329,9 @@ export function PurchaseCreditsModal({
 
         {/* Preset amounts */}
         <div className="p-6 space-y-4">
+          {description && (
+            <div className="text-sm text-gray-300">{description}</div>
+          )}
           <p className="text-sm text-gray-400">Select amount:</p>
           <div className="grid grid-cols-3 gap-3">
             {presets.map((amount) => (
@@ -423,6 +462,136 @@ export function CreditBalanceCard({ className = "" }: CreditBalanceCardProps) {
   );
 }
 
+// ============================================================================
+// Top-Up Prompt
+// ============================================================================
+
+const OPERATION_LABELS: Record<NeedsTopUp["operation"], string> = {
+  chat: "This message",
+  image: "This image",
+  video: "This video",
+  tts: "This speech",
+};
+
+interface TopUpModalProps {
+  /** Custom preset amounts */
+  presets?: number[];
+}
+
+/**
+ * Offers a purchase when a generation hook runs out of credits (see
+ * `useElizaTopUp`). After checkout the user comes back to this page and
+ * the request is sent again. Mount once inside `ElizaProvider`.
+ *
+ * @example
+ * <ElizaProvider>
+ *   {children}
+ *   <TopUpModal />
+ * </ElizaProvider>
+ */
+export function TopUpModal({ presets }: TopUpModalProps) {
+  const { needsTopUp, dismissTopUp } = useElizaTopUp();
+  const pathname = usePathname();
+
+  if (!needsTopUp) return null;
+
+  const { operation, required, shortfall, retryKey, args } = needsTopUp;
+
+  return (
+    <PurchaseCreditsModal
+      // A fresh modal per request, preselecting an amount that covers it
+      key={`${operation}:${required}`}
+      open
+      onClose={dismissTopUp}
+      presets={presets}
+      title="Not enough credits"
+      description={
+        required !== null && shortfall !== null && shortfall > 0
+          ? `${OPERATION_LABELS[operation]} needs ~${required.toFixed(2)} credits, ${shortfall.toFixed(2)} more than your balance.`
+          : `${OPERATION_LABELS[operation]} needs more credits than your balance.`
+      }
+      minAmount={shortfall ?? undefined}
+      purchaseOptions={{ cancelUrl: pathname }}
+      onCheckout={() => {
+        if (retryKey)
+          savePendingRetry({ key: retryKey, args, returnTo: pathname });
+      }}
+    />
+  );
+}
+
+// ============================================================================
+// Credit Gate
+// ============================================================================
+
+interface RequireCreditsProps {
+  /** Credits the wrapped feature needs */
+  min: number;
+  children: ReactNode;
+  /** Replaces the default top-up prompt when the balance is too low */
+  fallback?: ReactNode;
+  /** Shown while the balance loads */
+  loadingFallback?: ReactNode;
+  /** What the feature is called in the default prompt */
+  featureName?: string;
+  /** Custom class name for the default prompt */
+  className?: string;
+}
+
+/**
+ * Render children only when the balance covers `min`; otherwise show a
+ * top-up prompt that opens the purchase modal.
+ *
+ * @example
+ * <RequireCredits min={5} featureName="Video generation">
+ *   <VideoGenerator />
+ * </RequireCredits>
+ */
+export function RequireCredits({
+  min,
+  children,
+  fallback,
+  loadingFallback = null,
+  featureName = "This feature",
+  className = "",
+}: RequireCreditsProps) {
+  const { allowed, loading, balance, shortfall } = useCreditGate(min);
+  const [showModal, setShowModal] = useState(false);
+
+  if (loading) return <>{loadingFallback}</>;
+  if (allowed) return <>{children}</>;
+  if (fallback !== undefined) return <>{fallback}</>;
+
+  return (
+    <>
+      <div className={`card-eliza text-center space-y-4 ${className}`}>
+        <Coins className="h-8 w-8 text-eliza-orange mx-auto" />
+        <div className="space-y-1">
+          <p className="font-medium text-white">
+            {featureName} needs ${min.toFixed(2)} in credits
+          </p>
+          <p className="text-sm text-gray-400">
+            Your balance is ${balance.toFixed(2)}. Add at least $
+            {shortfall.toFixed(2)} to continue.
+          </p>
+        </div>
+        <button
+          onClick={() => setShowModal(true)}
+          className="btn-eliza justify-center"
+        >
+          <Plus className="h-4 w-4" />
+          Add credits
+        </button>
+      </div>
+
+      <PurchaseCreditsModal
+        open={showModal}
+        onClose={() => setShowModal(false)}
+      />
+    </>
+  );
+}
+
 // ============================================================================
 // Usage Meter
 // ============================================================================
@@ -474,3 +643,306 @@ export function UsageMeter({
     </div>
   );
 }
+
+// ============================================================================
+// Cost Estimate
+// ============================================================================
+
+interface CostEstimateProps {
+  /** The call to estimate; renders nothing when null */
+  request: CostEstimateRequest | null;
+  /** Highlight the badge when the estimate exceeds this balance */
+  balance?: number;
+  /** Custom class name */
+  className?: string;
+}
+
+/**
+ * Small badge with the estimated cost of a call, for next to send or
+ * generate buttons. Hover for what the estimate is based on.
+ *
+ * @example
+ * <CostEstimate request={{ operation: "image", numImages: 4 }} />
+ * <CostEstimate request={{ operation: "chat", messages }} balance={balance} />
+ */
+export function CostEstimate({
+  request,
+  balance,
+  className = "",
+}: CostEstimateProps) {
+  const { estimate } = useCostEstimate(request);
+  if (!estimate) return null;
+
+  const tooExpensive = balance !== undefined && estimate.credits > balance;
+  const amount =
+    estimate.credits > 0 && estimate.credits < 0.01
+      ? "<0.01"
+      : `~${estimate.credits.toFixed(2)}`;
+
+  return (
+    <span
+      title={`${estimate.basis} · ${estimate.model}${
+        estimate.source === "fallback" ? " · default prices" : ""
+      }`}
+      className={`inline-flex items-center gap-1 rounded-full px-2 py-0.5 text-xs ${
+        tooExpensive
+          ? "bg-amber-500/10 text-amber-400"
+          : "bg-gray-800 text-gray-400"
+      } ${className}`}
+    >
+      <Coins className="h-3 w-3" />
+      {amount} credits
+    </span>
+  );
+}
+
+// ============================================================================
+// Usage History
+// ============================================================================
+
+interface UsageHistoryTableProps {
+  /** Records per page */
+  pageSize?: number;
+  /** Initial grouping */
+  defaultGroupBy?: UsageGroupBy | "none";
+  /** Custom class name */
+  className?: string;
+}
+
+/** Start of a local "YYYY-MM-DD" day, or of the day after */
+function parseDay(value: string, nextDay = false): Date | undefined {
+  if (!value) return undefined;
+  const date = new Date(`${value}T00:00:00`);
+  if (nextDay) date.setDate(date.getDate() + 1);
+  return date;
+}
+
+function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Revoke after the click has started the download
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/**
+ * Usage history with operation and date filters, grouping by day or
+ * operation with subtotals, and CSV/JSON export of the loaded records.
+ *
+ * @example
+ * <UsageHistoryTable defaultGroupBy="day" />
+ */
+export function UsageHistoryTable({
+  pageSize = 50,
+  defaultGroupBy = "none",
+  className = "",
+}: UsageHistoryTableProps) {
+  const { records, loading, error, hasMore, setFilters, loadMore } =
+    useUsageHistory({ pageSize });
+  const [operation, setOperation] = useState("");
+  const [fromDay, setFromDay] = useState("");
+  const [toDay, setToDay] = useState("");
+  const [groupBy, setGroupBy] = useState(defaultGroupBy);
+
+  const applyFilters = (next: {
+    operation: string;
+    from: string;
+    to: string;
+  }) => {
+    setOperation(next.operation);
+    setFromDay(next.from);
+    setToDay(next.to);
+    setFilters({
+      operation: next.operation || undefined,
+      from: parseDay(next.from),
+      to: parseDay(next.to, true),
+    });
+  };
+  const current = { operation, from: fromDay, to: toDay };
+  // Choose "All" to see the other operations again
+  const operations = Array.from(
+    new Set([
+      ...records.map((record) => record.operation),
+      ...(operation ? [operation] : []),
+    ]),
+  ).sort();
+
+  const groups =
+    groupBy === "none"
+      ? [{ key: "all", label: "", records, total: totalCredits(records) }]
+      : groupUsage(records, groupBy);
+  const total = totalCredits(records);
+
+  const exportAs = (format: "csv" | "json") => {
+    const name = `usage-${dayKey(new Date())}.${format}`;
+    if (format === "csv") {
+      downloadFile(usageToCsv(records), name, "text/csv;charset=utf-8");
+    } else {
+      downloadFile(usageToJson(records), name, "application/json");
+    }
+  };
+
+  return (
+    <div className={`card-eliza space-y-4 ${className}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-lg font-medium text-white">Usage</h3>
+        <div className="flex gap-2">
+          {(["csv", "json"] as const).map((format) => (
+            <button
+              key={format}
+              onClick={() => exportAs(format)}
+              disabled={records.length === 0}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm rounded-lg border border-gray-700 text-gray-300 hover:bg-gray-800 transition-colors disabled:opacity-50"
+            >
+              <Download className="h-4 w-4" />
+              {format.toUpperCase()}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 sm:grid-cols-4">
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">Operation</span>
+          <select
+            value={operation}
+            onChange={(e) =>
+              applyFilters({ ...current, operation: e.target.value })
+            }
+            className="input-eliza"
+          >
+            <option value="">All</option>
+            {operations.map((op) => (
+              <option key={op} value={op}>
+                {op}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">From</span>
+          <input
+            type="date"
+            value={fromDay}
+            max={toDay || undefined}
+            onChange={(e) => applyFilters({ ...current, from: e.target.value })}
+            className="input-eliza"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">To</span>
+          <input
+            type="date"
+            value={toDay}
+            min={fromDay || undefined}
+            onChange={(e) => applyFilters({ ...current, to: e.target.value })}
+            className="input-eliza"
+          />
+        </label>
+        <label className="space-y-1">
+          <span className="text-xs text-gray-500">Group by</span>
+          <select
+            value={groupBy}
+            onChange={(e) => setGroupBy(e.target.value as typeof groupBy)}
+            className="input-eliza"
+          >
+            <option value="none">Nothing</option>
+            <option value="day">Day</option>
+            <option value="operation">Operation</option>
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="text-sm text-red-400">{error}</p>}
+
+      {records.length === 0 ? (
+        loading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-eliza-orange" />
+          </div>
+        ) : (
+          !error && (
+            <p className="text-sm text-gray-500">No usage for these filters.</p>
+          )
+        )
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="py-2 pr-4 font-normal">Date</th>
+                <th className="py-2 pr-4 font-normal">Operation</th>
+                <th className="py-2 text-right font-normal">Credits</th>
+              </tr>
+            </thead>
+            {groups.map((group) => (
+              <tbody key={group.key} className="divide-y divide-gray-800">
+                {groupBy !== "none" && (
+                  <tr className="bg-gray-800/40">
+                    <td
+                      colSpan={2}
+                      className="py-2 px-2 font-medium text-white"
+                    >
+                      {group.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500">
+                        {group.records.length}{" "}
+                        {group.records.length === 1 ? "record" : "records"}
+                      </span>
+                    </td>
+                    <td className="py-2 px-2 text-right font-medium text-white">
+                      {group.total.toFixed(2)}
+                    </td>
+                  </tr>
+                )}
+                {group.records.map((record) => (
+                  <tr key={record.id}>
+                    <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">
+                      {new Date(record.createdAt).toLocaleString(undefined, {
+                        dateStyle: "medium",
+                        timeStyle: "short",
+                      })}
+                    </td>
+                    <td className="py-2 pr-4">
+                      <p className="text-white">{record.operation}</p>
+                      {record.description && (
+                        <p className="text-xs text-gray-500">
+                          {record.description}
+                        </p>
+                      )}
+                    </td>
+                    <td className="py-2 text-right text-white">
+                      {record.creditsUsed.toFixed(2)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            ))}
+            <tfoot>
+              <tr className="border-t border-gray-700">
+                <td colSpan={2} className="py-2 text-gray-400">
+                  Total ({records.length} loaded)
+                </td>
+                <td className="py-2 text-right font-medium text-white">
+                  {total.toFixed(2)}
+                </td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
+      {hasMore && records.length > 0 && (
+        <button
+          onClick={loadMore}
+          disabled={loading}
+          className="btn-eliza-outline w-full inline-flex items-center justify-center gap-2 disabled:opacity-50"
+        >
+          {loading && <Loader2 className="h-4 w-4 animate-spin" />}
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,413 @@
+"use client";
+
+/**
+ * ElizaDevtools - Development-only auth and request inspector.
+ *
+ * Shows the decoded token and its expiry, the user cache, the client
+ * configuration and recent SDK requests, with buttons to force a token
+ * refresh, expire the session or make the next request fail with a 402.
+ * Toggle it with Alt+Shift+E. Renders nothing in production builds.
+ *
+ * @example
+ * // In layout.tsx, inside ElizaProvider:
+ * <ElizaProvider>
+ *   {children}
+ *   <ElizaDevtools />
+ * </ElizaProvider>
+ */
+
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type ReactNode,
+} from "react";
+import { Bug, RefreshCw, Timer, Trash2, Wallet, X } from "lucide-react";
+import { useElizaAuth } from "@/hooks/use-eliza-auth";
+import { decodeTokenClaims, USER_CACHE_TTL } from "@/lib/eliza-auth";
+import type { ElizaRequest } from "@/lib/eliza-middleware";
+import { useElizaClient } from "./eliza-provider";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+interface ElizaDevtoolsProps {
+  /**
+   * Keyboard shortcut that toggles the panel, e.g. "ctrl+shift+d".
+   * @default "alt+shift+e"
+   */
+  shortcut?: string;
+  /**
+   * Open the panel on first render.
+   * @default false
+   */
+  defaultOpen?: boolean;
+  /**
+   * How many requests to keep in the log.
+   * @default 20
+   */
+  maxRequests?: number;
+}
+
+interface RequestEntry {
+  id: number;
+  method: string;
+  path: string;
+  /** HTTP status, or null when no response arrived */
+  status: number | null;
+  durationMs: number;
+  simulated?: boolean;
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+const START_KEY = "devtoolsStartedAt";
+
+function matchesShortcut(e: KeyboardEvent, shortcut: string): boolean {
+  const parts = shortcut.toLowerCase().split("+");
+  const key = parts.pop();
+  if (!key) return false;
+  const mods = new Set(parts);
+  if (e.ctrlKey !== mods.has("ctrl")) return false;
+  if (e.altKey !== mods.has("alt")) return false;
+  if (e.shiftKey !== mods.has("shift")) return false;
+  if (e.metaKey !== mods.has("meta")) return false;
+  // Alt changes e.key on macOS, so fall back to the physical key
+  return e.key.toLowerCase() === key || e.code.toLowerCase() === `key${key}`;
+}
+
+function formatDuration(ms: number): string {
+  if (ms <= 0) return "0s";
+  const seconds = Math.floor(ms / 1000);
+  const h = Math.floor(seconds / 3600);
+  const m = Math.floor((seconds % 3600) / 60);
+  const s = seconds % 60;
+  if (h > 0) return `${h}h ${m}m`;
+  if (m > 0) return `${m}m ${s}s`;
+  return `${s}s`;
+}
+
+function toPath(url: string): string {
+  try {
+    const parsed = new URL(url, window.location.href);
+    return parsed.pathname + parsed.search;
+  } catch {
+    return url;
+  }
+}
+
+function statusColor(status: number | null): string {
+  if (status === null || status >= 500) return "text-red-400";
+  if (status >= 400) return "text-yellow-400";
+  return "text-emerald-400";
+}
+
+function Row({ label, children }: { label: string; children: ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4">
+      <span className="text-gray-500">{label}</span>
+      <span className="text-gray-200 truncate text-right">{children}</span>
+    </div>
+  );
+}
+
+function Section({ title, children }: { title: string; children: ReactNode }) {
+  return (
+    <div className="space-y-1.5 border-t border-gray-800 px-4 py-3">
+      <p className="text-[10px] font-semibold uppercase tracking-wider text-gray-500">
+        {title}
+      </p>
+      {children}
+    </div>
+  );
+}
+
+// ============================================================================
+// Panel
+// ============================================================================
+
+function DevtoolsPanel({
+  shortcut = "alt+shift+e",
+  defaultOpen = false,
+  maxRequests = 20,
+}: ElizaDevtoolsProps) {
+  const client = useElizaClient();
+  const { auth, config } = client;
+  const { user, isAuthenticated } = useElizaAuth();
+  const [open, setOpen] = useState(defaultOpen);
+  const [now, setNow] = useState(() => Date.now());
+  const [requests, setRequests] = useState<RequestEntry[]>([]);
+  const [simulate402, setSimulate402] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const simulateRef = useRef(false);
+  const nextId = useRef(0);
+
+  // --------------------------------------------------------------------------
+  // Keyboard Shortcut
+  // --------------------------------------------------------------------------
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!matchesShortcut(e, shortcut)) return;
+      e.preventDefault();
+      setOpen((prev) => !prev);
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [shortcut]);
+
+  // Tick while open so countdowns and cache age stay current
+  useEffect(() => {
+    if (!open) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [open]);
+
+  // --------------------------------------------------------------------------
+  // Request Log
+  // --------------------------------------------------------------------------
+
+  // Recorded while closed too, so the log is there when the panel opens
+  useEffect(() => {
+    const record = (
+      request: ElizaRequest,
+      status: number | null,
+      simulated?: boolean,
+    ) => {
+      const startedAt = request.meta[START_KEY];
+      const entry: RequestEntry = {
+        id: nextId.current++,
+        method: (request.init.method ?? "GET").toUpperCase(),
+        path: toPath(request.url),
+        status,
+        durationMs:
+          typeof startedAt === "number" ? performance.now() - startedAt : 0,
+        simulated,
+      };
+      setRequests((prev) => [entry, ...prev].slice(0, maxRequests));
+    };
+
+    return client.use({
+      name: "eliza-devtools",
+      onRequest(request) {
+        request.meta[START_KEY] = performance.now();
+      },
+      onResponse(response, request) {
+        const path = toPath(request.url);
+        // Leave auth traffic alone so the simulated 402 hits a billed call
+        const isAuthCall =
+          path.startsWith("/api/v1/app-auth/") ||
+          (!!config.sessionEndpoint && path.startsWith(config.sessionEndpoint));
+
+        if (simulateRef.current && !isAuthCall) {
+          simulateRef.current = false;
+          setSimulate402(false);
+          void response.body?.cancel().catch(() => {});
+          record(request, 402, true);
+          return Response.json(
+            {
+              error: "Insufficient credits (simulated by ElizaDevtools)",
+              code: "insufficient_credits",
+            },
+            { status: 402 },
+          );
+        }
+
+        record(request, response.status);
+      },
+      onError(_error, request) {
+        record(request, null);
+      },
+    });
+  }, [client, config.sessionEndpoint, maxRequests]);
+
+  // --------------------------------------------------------------------------
+  // Actions
+  // --------------------------------------------------------------------------
+
+  const handleRefresh = useCallback(async () => {
+    setMessage("Refreshing...");
+    const ok = await auth.refreshSession();
+    setMessage(ok ? "Token refreshed" : "Refresh failed");
+    setNow(Date.now());
+  }, [auth]);
+
+  const handleExpire = useCallback(() => {
+    auth.expireSession();
+    setMessage("Session expired");
+    setNow(Date.now());
+  }, [auth]);
+
+  const handleSimulate402 = useCallback(() => {
+    simulateRef.current = !simulateRef.current;
+    setSimulate402(simulateRef.current);
+  }, []);
+
+  if (!open) return null;
+
+  // --------------------------------------------------------------------------
+  // Render
+  // --------------------------------------------------------------------------
+
+  const token = auth.getToken();
+  const claims = token ? decodeTokenClaims(token) : null;
+  const expiresAt = auth.getTokenExpiry();
+  const cacheAge = auth.getUserCacheAge();
+
+  return (
+    <div className="fixed bottom-4 left-4 z-[60] flex max-h-[80vh] w-96 flex-col overflow-hidden rounded-xl border border-gray-800 bg-gray-950/95 font-mono text-xs shadow-2xl backdrop-blur">
+      <div className="flex items-center justify-between px-4 py-3">
+        <span className="flex items-center gap-2 font-sans text-sm font-medium text-white">
+          <Bug className="h-4 w-4 text-eliza-orange" />
+          Eliza Devtools
+        </span>
+        <button
+          onClick={() => setOpen(false)}
+          aria-label="Close devtools"
+          className="text-gray-500 transition-colors hover:text-gray-300"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      <div className="overflow-y-auto">
+        <Section title="Client">
+          <Row label="apiBase">{config.apiBase}</Row>
+          <Row label="appId">{config.appId || "(not set)"}</Row>
+          <Row label="credits mode">{config.creditsMode}</Row>
+          <Row label="session cookie">{config.sessionEndpoint ?? "off"}</Row>
+        </Section>
+
+        <Section title="Session">
+          <Row label="user">
+            {isAuthenticated && user ? user.email || user.id : "signed out"}
+          </Row>
+          <Row label="token expires">
+            {expiresAt === null
+              ? token
+                ? "unknown"
+                : "-"
+              : expiresAt <= now
+                ? "expired"
+                : `in ${formatDuration(expiresAt - now)}`}
+          </Row>
+          <Row label="user cache">
+            {cacheAge === null
+              ? "empty"
+              : cacheAge >= USER_CACHE_TTL
+                ? `stale (${formatDuration(cacheAge)} old)`
+                : `${formatDuration(cacheAge)} / ${formatDuration(USER_CACHE_TTL)}`}
+          </Row>
+          {token && !claims && (
+            <p className="text-gray-500">Opaque token (not a JWT)</p>
+          )}
+          {claims && (
+            <pre className="max-h-40 overflow-auto rounded-lg bg-black/40 p-2 text-[11px] text-gray-300">
+              {JSON.stringify(claims, null, 2)}
+            </pre>
+          )}
+        </Section>
+
+        <Section title="Actions">
+          <div className="flex flex-wrap gap-2 font-sans">
+            <DevtoolsButton onClick={handleRefresh} disabled={!token}>
+              <RefreshCw className="h-3 w-3" />
+              Force refresh
+            </DevtoolsButton>
+            <DevtoolsButton onClick={handleExpire} disabled={!token}>
+              <Timer className="h-3 w-3" />
+              Expire session
+            </DevtoolsButton>
+            <DevtoolsButton onClick={handleSimulate402} active={simulate402}>
+              <Wallet className="h-3 w-3" />
+              {simulate402 ? "402 armed" : "Simulate 402"}
+            </DevtoolsButton>
+          </div>
+          {simulate402 && (
+            <p className="text-yellow-400">
+              The next billed request will fail with 402.
+            </p>
+          )}
+          {message && <p className="text-gray-400">{message}</p>}
+        </Section>
+
+        <Section title={`Requests (${requests.length})`}>
+          {requests.length === 0 ? (
+            <p className="text-gray-500">No requests yet</p>
+          ) : (
+            <>
+              <ul className="space-y-1">
+                {requests.map((entry) => (
+                  <li key={entry.id} className="flex items-center gap-2">
+                    <span className="w-12 text-gray-500">{entry.method}</span>
+                    <span
+                      className="flex-1 truncate text-gray-300"
+                      title={entry.path}
+                    >
+                      {entry.path}
+                    </span>
+                    <span className={statusColor(entry.status)}>
+                      {entry.status ?? "ERR"}
+                      {entry.simulated && "*"}
+                    </span>
+                    <span className="w-14 text-right text-gray-500">
+                      {Math.round(entry.durationMs)}ms
+                    </span>
+                  </li>
+                ))}
+              </ul>
+              <button
+                onClick={() => setRequests([])}
+                className="flex items-center gap-1 text-gray-500 transition-colors hover:text-gray-300"
+              >
+                <Trash2 className="h-3 w-3" />
+                Clear
+              </button>
+            </>
+          )}
+        </Section>
+      </div>
+    </div>
+  );
+}
+
+function DevtoolsButton({
+  onClick,
+  disabled,
+  active,
+  children,
+}: {
+  onClick: () => void;
+  disabled?: boolean;
+  active?: boolean;
+  children: ReactNode;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={`inline-flex items-center gap-1.5 rounded-lg border px-2.5 py-1.5 text-xs transition-colors disabled:opacity-40 ${
+        active
+          ? "border-yellow-500/50 bg-yellow-500/10 text-yellow-300"
+          : "border-gray-700 text-gray-300 hover:bg-gray-800"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+/**
+ * Dev-only inspector for auth state and SDK requests.
+ * Replaced by a no-op in production so the panel is dropped from the bundle.
+ */
+export const ElizaDevtools: (props: ElizaDevtoolsProps) => ReactNode =
+  process.env.NODE_ENV === "production" ? () => null : DevtoolsPanel;
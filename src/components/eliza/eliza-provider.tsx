@@ -4,8 +4,12 @@
  * ElizaProvider - Main provider component for Eliza Cloud apps.
  *
  * Wraps your app with:
+ * - SDK client (shared by every hook and component)
+ * - Auth context (one user fetch and session refresh loop)
  * - Analytics tracking (automatic page views)
  * - Credits context (balance management)
+ * - Session expiry handling (optional re-sign-in prompt)
+ * - Top-up requests from generation hooks that ran out of credits
  *
  * @example
  * // In layout.tsx:
@@ -20,6 +24,10 @@
  *     </html>
  *   );
  * }
+ *
+ * // With a custom client:
+ * const client = createElizaClient({ apiBase: "http://localhost:4000" });
+ * <ElizaProvider client={client}>{children}</ElizaProvider>
  */
 
 import {
@@ -31,6 +39,11 @@ import {
   type ReactNode,
 } from "react";
 import { usePathname } from "next/navigation";
+import { LogIn, X } from "lucide-react";
+import { getDefaultClient, type ElizaClient } from "@/lib/eliza-client";
+import { isAuthFlowError } from "@/lib/eliza-errors";
+import type { NeedsTopUp } from "@/lib/eliza-topup";
+import { ElizaAuthProvider } from "./auth-provider";
 
 // ============================================================================
 // Types
@@ -48,6 +61,13 @@ interface ElizaContextType {
   credits: CreditsContextType;
   appId: string | null;
   isReady: boolean;
+  /** True after an SDK call found the session expired, until dismissed */
+  sessionExpired: boolean;
+  dismissSessionExpired: () => void;
+  /** The latest request that failed for lack of credits, until dismissed */
+  needsTopUp: NeedsTopUp | null;
+  requestTopUp: (needs: NeedsTopUp) => void;
+  dismissTopUp: () => void;
 }
 
 // ============================================================================
@@ -55,35 +75,92 @@ interface ElizaContextType {
 // ============================================================================
 
 const ElizaContext = createContext<ElizaContextType | null>(null);
+const ClientContext = createContext<ElizaClient | null>(null);
 
 // ============================================================================
 // Analytics Component
 // ============================================================================
 
-function ElizaAnalytics() {
+function ElizaAnalytics({ client }: { client: ElizaClient }) {
   const pathname = usePathname();
 
   useEffect(() => {
-    const track = async () => {
-      try {
-        const { trackPageView } = await import("@/lib/eliza");
-        trackPageView(pathname);
-      } catch {
-        // Silent fail - don't break app for analytics
-      }
-    };
-    track();
-  }, [pathname]);
+    // trackPageView never throws - analytics can't break the app
+    client.trackPageView(pathname);
+  }, [client, pathname]);
 
   return null;
 }
 
+// ============================================================================
+// Session Expired Prompt
+// ============================================================================
+
+function SessionExpiredPrompt({
+  onSignIn,
+  onDismiss,
+}: {
+  onSignIn: () => Promise<unknown>;
+  onDismiss: () => void;
+}) {
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSignIn = async () => {
+    try {
+      setError(null);
+      await onSignIn();
+    } catch (err) {
+      // Closing the popup is a cancel, not an error
+      if (isAuthFlowError(err) && err.code === "POPUP_CLOSED") return;
+      const message = err instanceof Error ? err.message : "Sign in failed";
+      setError(message);
+      console.error("[SessionExpiredPrompt]", message);
+    }
+  };
+
+  return (
+    <div
+      role="alert"
+      className="card-eliza fixed bottom-4 right-4 z-50 flex max-w-sm items-start gap-3 p-4 shadow-lg"
+    >
+      <div className="flex-1 space-y-3">
+        <div>
+          <p className="text-sm font-medium text-white">Session expired</p>
+          <p className="text-sm text-gray-400">
+            Sign in again to pick up where you left off.
+          </p>
+          {error && <p className="mt-1 text-xs text-red-400">{error}</p>}
+        </div>
+        <button
+          onClick={handleSignIn}
+          className="btn-eliza inline-flex items-center gap-2 text-sm"
+        >
+          <LogIn className="h-4 w-4" />
+          Sign in again
+        </button>
+      </div>
+      <button
+        onClick={onDismiss}
+        aria-label="Dismiss"
+        className="text-gray-500 transition-colors hover:text-gray-300"
+      >
+        <X className="h-4 w-4" />
+      </button>
+    </div>
+  );
+}
+
 // ============================================================================
 // Provider Component
 // ============================================================================
 
 interface ElizaProviderProps {
   children: ReactNode;
+  /**
+   * SDK client used by every hook and component below the provider.
+   * @default the client configured from environment variables
+   */
+  client?: ElizaClient;
   /**
    * Auto-refresh credits interval in milliseconds.
    * Set to 0 to disable auto-refresh.
@@ -100,14 +177,31 @@ interface ElizaProviderProps {
    * @default false
    */
   disableAnalytics?: boolean;
+  /**
+   * Session refresh interval in ms when the token's expiry is unknown.
+   * JWTs are refreshed shortly before they expire. 0 disables refresh.
+   * @default 300000 (5 minutes)
+   */
+  authRefreshInterval?: number;
+  /**
+   * Show a re-sign-in prompt when the session expires. Signing in again
+   * returns the user to the page they were on.
+   * @default true
+   */
+  promptOnSessionExpired?: boolean;
 }
 
 export function ElizaProvider({
   children,
+  client: clientProp,
   creditsRefreshInterval = 60000,
   lowBalanceThreshold = 10,
   disableAnalytics = false,
+  authRefreshInterval,
+  promptOnSessionExpired = true,
 }: ElizaProviderProps) {
+  const client = clientProp ?? getDefaultClient();
+
   // Credits state
   const [balance, setBalance] = useState<number | null>(null);
   const [creditsLoading, setCreditsLoading] = useState(false);
@@ -115,18 +209,17 @@ export function ElizaProvider({
 
   // App state
   const [isReady, setIsReady] = useState(false);
+  const [sessionExpired, setSessionExpired] = useState(false);
+  const [needsTopUp, setNeedsTopUp] = useState<NeedsTopUp | null>(null);
   const appId =
-    typeof window !== "undefined"
-      ? process.env.NEXT_PUBLIC_ELIZA_APP_ID || null
-      : null;
+    typeof window !== "undefined" ? client.config.appId || null : null;
 
   // Refresh credits
   const refreshCredits = useCallback(async () => {
     setCreditsLoading(true);
     setCreditsError(null);
     try {
-      const { getBalance } = await import("@/lib/eliza");
-      const result = await getBalance();
+      const result = await client.getBalance();
       setBalance(result.balance);
     } catch (e) {
       setCreditsError(
@@ -135,13 +228,41 @@ export function ElizaProvider({
     } finally {
       setCreditsLoading(false);
     }
-  }, []);
+  }, [client]);
 
   // Initial load
   useEffect(() => {
     refreshCredits().then(() => setIsReady(true));
   }, [refreshCredits]);
 
+  // The balance belongs to whoever is signed in, in this tab or another
+  useEffect(() => {
+    return client.auth.subscribe((event) => {
+      switch (event.type) {
+        case "session-expired":
+          setSessionExpired(true);
+          refreshCredits();
+          break;
+        case "signed-in":
+          setSessionExpired(false);
+          refreshCredits();
+          break;
+        case "signed-out":
+          setNeedsTopUp(null);
+          refreshCredits();
+          break;
+      }
+    });
+  }, [client, refreshCredits]);
+
+  const dismissSessionExpired = useCallback(() => setSessionExpired(false), []);
+
+  const requestTopUp = useCallback(
+    (needs: NeedsTopUp) => setNeedsTopUp(needs),
+    [],
+  );
+  const dismissTopUp = useCallback(() => setNeedsTopUp(null), []);
+
   // Auto-refresh credits
   useEffect(() => {
     if (creditsRefreshInterval <= 0) return;
@@ -161,13 +282,28 @@ export function ElizaProvider({
     credits,
     appId,
     isReady,
+    sessionExpired,
+    dismissSessionExpired,
+    needsTopUp,
+    requestTopUp,
+    dismissTopUp,
   };
 
   return (
-    <ElizaContext.Provider value={contextValue}>
-      {!disableAnalytics && <ElizaAnalytics />}
-      {children}
-    </ElizaContext.Provider>
+    <ClientContext.Provider value={client}>
+      <ElizaAuthProvider client={client} refreshInterval={authRefreshInterval}>
+        <ElizaContext.Provider value={contextValue}>
+          {!disableAnalytics && <ElizaAnalytics client={client} />}
+          {children}
+          {promptOnSessionExpired && sessionExpired && (
+            <SessionExpiredPrompt
+              onSignIn={() => client.auth.signIn()}
+              onDismiss={dismissSessionExpired}
+            />
+          )}
+        </ElizaContext.Provider>
+      </ElizaAuthProvider>
+    </ClientContext.Provider>
   );
 }
 
@@ -196,6 +332,11 @@ export function useEliza() {
         },
         appId: null,
         isReady: false,
+        sessionExpired: false,
+        dismissSessionExpired: () => {},
+        needsTopUp: null,
+        requestTopUp: () => {},
+        dismissTopUp: () => {},
       } as ElizaContextType;
     }
     throw new Error("useEliza must be used within an ElizaProvider");
@@ -203,6 +344,18 @@ export function useEliza() {
   return context;
 }
 
+/**
+ * Access the SDK client provided by the nearest ElizaProvider.
+ * Falls back to the default client outside a provider.
+ *
+ * @example
+ * const client = useElizaClient();
+ * const { balance } = await client.credits.getAppCredits();
+ */
+export function useElizaClient(): ElizaClient {
+  return useContext(ClientContext) ?? getDefaultClient();
+}
+
 /**
  * Access credits balance and management.
  *
@@ -215,6 +368,26 @@ export function useElizaCredits() {
   return credits;
 }
 
+/**
+ * The provider's pending top-up request. Generation hooks report requests
+ * that ran out of credits here; `TopUpModal` offers the purchase. Outside
+ * a provider, reports are ignored.
+ *
+ * @example
+ * const { needsTopUp, dismissTopUp } = useElizaTopUp();
+ * if (needsTopUp) console.log(`Short ${needsTopUp.shortfall} credits`);
+ */
+export function useElizaTopUp() {
+  const context = useContext(ElizaContext);
+  return {
+    needsTopUp: context?.needsTopUp ?? null,
+    requestTopUp: context?.requestTopUp ?? noop,
+    dismissTopUp: context?.dismissTopUp ?? noop,
+  };
+}
+
+function noop() {}
+
 // ============================================================================
 // Utility Components
 // ============================================================================
@@ -12,7 +12,9 @@
 export {
   ElizaProvider,
   useEliza,
+  useElizaClient,
   useElizaCredits,
+  useElizaTopUp,
   // Legacy org-level credit display (for apps using org credits)
   CreditDisplay,
   LowBalanceWarning,
@@ -27,6 +29,7 @@ export {
   SignOutButton,
   UserMenu,
   ProtectedRoute,
+  Can,
   AuthStatus,
 } from "./auth-components";
 
@@ -40,15 +43,42 @@ export {
   PurchaseCreditsButton,
   PurchaseCreditsModal,
   CreditBalanceCard,
+  RequireCredits,
   UsageMeter,
+  UsageHistoryTable,
+  CostEstimate,
+  TopUpModal,
 } from "./credit-components";
 
+// ============================================================================
+// Spend Charts
+// ============================================================================
+
+export {
+  SpendAnalytics,
+  DailySpendChart,
+  SpendByOperationChart,
+  CreditRunwayChart,
+} from "./spend-charts";
+
+// ============================================================================
+// Devtools (renders nothing in production)
+// ============================================================================
+
+export { ElizaDevtools } from "./eliza-devtools";
+
 // ============================================================================
 // Re-export Hooks
 // ============================================================================
 
-export { useElizaAuth } from "@/hooks/use-eliza-auth";
-export { useAppCredits } from "@/hooks/use-eliza-credits";
+export { useElizaAuth, useHasPermission } from "@/hooks/use-eliza-auth";
+export {
+  useAppCredits,
+  useCreditGate,
+  useUsageHistory,
+  useRecentUsage,
+  useCostEstimate,
+} from "@/hooks/use-eliza-credits";
 
 // Character Chat Hooks
 export {
@@ -57,18 +87,83 @@ export {
   useCharacterRooms,
 } from "@/hooks/use-eliza";
 
+// ============================================================================
+// Re-export Client
+// ============================================================================
+
+export { createElizaClient } from "@/lib/eliza-client";
+export {
+  createLocalStorageTokenStore,
+  createSessionStorageTokenStore,
+  createMemoryTokenStore,
+  createCookieTokenStore,
+} from "@/lib/eliza-token-store";
+
 // ============================================================================
 // Re-export Auth Utilities
 // ============================================================================
 
 export { isAppAuthAvailable } from "@/lib/eliza-auth";
+export { hasRole, hasPermission, checkAccess } from "@/lib/eliza-access";
+export { resolveRedirect, isAllowedRedirect } from "@/lib/eliza-redirect";
+export { estimateCost, calculateCost } from "@/lib/eliza-pricing";
+
+// ============================================================================
+// Re-export Errors
+// ============================================================================
+
+export {
+  ElizaApiError,
+  InsufficientCreditsError,
+  UnauthorizedError,
+  RateLimitError,
+  ValidationError,
+  NetworkError,
+  AuthFlowError,
+  isElizaApiError,
+  isInsufficientCreditsError,
+  isAuthFlowError,
+} from "@/lib/eliza-errors";
 
 // ============================================================================
 // Re-export Types
 // ============================================================================
 
+export type {
+  ElizaClient,
+  ElizaClientConfig,
+  CreditsMode,
+} from "@/lib/eliza-client";
+export type {
+  TokenStore,
+  CookieTokenStoreOptions,
+} from "@/lib/eliza-token-store";
+export type { ElizaMiddleware, ElizaRequest } from "@/lib/eliza-middleware";
 export type { ElizaUser, SignInOptions } from "@/lib/eliza-auth";
-export type { AppCreditBalance, PurchaseParams } from "@/lib/eliza-credits";
+export type { AuthFlowErrorCode } from "@/lib/eliza-errors";
+export type { AccessRequirement } from "@/lib/eliza-access";
+export type { ProfileUpdate, AuthSession } from "@/lib/eliza-account";
+export type {
+  AppCreditBalance,
+  PurchaseParams,
+  CreditUsageRecord,
+  PurchaseRecord,
+  HistoryOptions,
+  UsageQuery,
+  UsagePage,
+} from "@/lib/eliza-credits";
+export type {
+  UsageGroup,
+  UsageGroupBy,
+  DailySpend,
+  CreditRunway,
+} from "@/lib/eliza-usage";
+export type {
+  CostEstimate as CostEstimateResult,
+  CostEstimateRequest,
+  PriceTable,
+} from "@/lib/eliza-pricing";
+export type { NeedsTopUp } from "@/lib/eliza-topup";
 export type {
   AppCharacter,
   Room,
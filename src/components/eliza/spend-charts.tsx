@@ -0,0 +1,440 @@
+"use client";
+
+/**
+ * Eliza Cloud Spend Charts
+ *
+ * Credit spend analytics as plain SVG: daily spend, spend by operation
+ * and a projection of when the balance runs out. The charts take usage
+ * records (see `useRecentUsage`); `SpendAnalytics` loads them for you.
+ *
+ * @example
+ * // All three charts for the last 30 days
+ * <SpendAnalytics />
+ *
+ * // Individual charts with your own records
+ * <DailySpendChart records={records} days={14} />
+ * <SpendByOperationChart records={records} />
+ * <CreditRunwayChart records={records} balance={balance} />
+ */
+
+import { useAppCredits, useRecentUsage } from "@/hooks/use-eliza-credits";
+import type { CreditUsageRecord } from "@/lib/eliza-credits";
+import {
+  dailySpend,
+  groupUsage,
+  projectRunway,
+  totalCredits,
+} from "@/lib/eliza-usage";
+import { BarChart3, Loader2, PieChart, TrendingDown } from "lucide-react";
+
+// ============================================================================
+// Shared
+// ============================================================================
+
+/** Slice colors for spend by operation; the last one is "Other" */
+const PALETTE = [
+  "#ff6b2c", // eliza-orange
+  "#a855f7", // eliza-purple
+  "#06b6d4", // eliza-cyan
+  "#10b981", // eliza-emerald
+  "#f59e0b",
+  "#6b7280",
+];
+
+function ChartCard({
+  title,
+  icon: Icon,
+  className = "",
+  children,
+}: {
+  title: string;
+  icon: typeof BarChart3;
+  className?: string;
+  children: React.ReactNode;
+}) {
+  return (
+    <div className={`card-eliza space-y-4 ${className}`}>
+      <h3 className="text-sm font-medium text-gray-300 flex items-center gap-2">
+        <Icon className="h-4 w-4 text-eliza-orange" />
+        {title}
+      </h3>
+      {children}
+    </div>
+  );
+}
+
+function formatDay(day: string): string {
+  return new Date(`${day}T00:00:00`).toLocaleDateString(undefined, {
+    month: "short",
+    day: "numeric",
+  });
+}
+
+// ============================================================================
+// Daily Spend
+// ============================================================================
+
+interface DailySpendChartProps {
+  records: CreditUsageRecord[];
+  /** Days to show, today included */
+  days?: number;
+  className?: string;
+}
+
+/**
+ * Bar chart of credits spent per day.
+ *
+ * @example
+ * <DailySpendChart records={records} days={14} />
+ */
+export function DailySpendChart({
+  records,
+  days = 30,
+  className = "",
+}: DailySpendChartProps) {
+  const series = dailySpend(records, days);
+  const total = series.reduce((sum, point) => sum + point.total, 0);
+  const max = Math.max(...series.map((point) => point.total), 0);
+  const slot = 10;
+
+  return (
+    <ChartCard title="Daily spend" icon={BarChart3} className={className}>
+      <div className="flex items-baseline gap-3">
+        <p className="text-2xl font-bold text-white">{total.toFixed(2)}</p>
+        <p className="text-sm text-gray-500">
+          last {days} days · {(total / days).toFixed(2)}/day
+        </p>
+      </div>
+
+      <svg
+        viewBox={`0 0 ${days * slot} 100`}
+        preserveAspectRatio="none"
+        className="h-32 w-full"
+        role="img"
+        aria-label={`Daily credit spend for the last ${days} days`}
+      >
+        {[25, 50, 75].map((y) => (
+          <line
+            key={y}
+            x1={0}
+            x2={days * slot}
+            y1={y}
+            y2={y}
+            className="stroke-gray-800"
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+        {series.map((point, i) => {
+          const height = max > 0 ? (point.total / max) * 100 : 0;
+          return (
+            <rect
+              key={point.day}
+              x={i * slot + 1.5}
+              y={100 - height}
+              width={slot - 3}
+              // Keep days with a little spend visible
+              height={point.total > 0 ? Math.max(height, 1.5) : 0}
+              rx={1}
+              className="fill-eliza-orange transition-colors hover:fill-eliza-orange-light"
+            >
+              <title>
+                {formatDay(point.day)}: {point.total.toFixed(2)} credits
+              </title>
+            </rect>
+          );
+        })}
+      </svg>
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>{formatDay(series[0].day)}</span>
+        <span>Today</span>
+      </div>
+    </ChartCard>
+  );
+}
+
+// ============================================================================
+// Spend by Operation
+// ============================================================================
+
+interface SpendByOperationChartProps {
+  records: CreditUsageRecord[];
+  /** Operations shown separately; the rest are grouped as "Other" */
+  maxSlices?: number;
+  className?: string;
+}
+
+/**
+ * Donut chart of credits spent per operation type.
+ *
+ * @example
+ * <SpendByOperationChart records={records} />
+ */
+export function SpendByOperationChart({
+  records,
+  maxSlices = 5,
+  className = "",
+}: SpendByOperationChartProps) {
+  const groups = groupUsage(records, "operation");
+  const total = totalCredits(records);
+
+  const top = groups.slice(0, maxSlices);
+  const rest = groups.slice(maxSlices);
+  const slices = top.map((group, i) => ({
+    label: group.label,
+    total: group.total,
+    color: PALETTE[i % (PALETTE.length - 1)],
+  }));
+  if (rest.length > 0) {
+    slices.push({
+      label: "Other",
+      total: rest.reduce((sum, group) => sum + group.total, 0),
+      color: PALETTE[PALETTE.length - 1],
+    });
+  }
+
+  // Circumference 100, so dash lengths and offsets are percentages
+  const radius = 100 / (2 * Math.PI);
+  const arcs = slices.map((slice, i) => ({
+    ...slice,
+    percent: (slice.total / total) * 100,
+    start: slices
+      .slice(0, i)
+      .reduce((sum, prev) => sum + (prev.total / total) * 100, 0),
+  }));
+
+  return (
+    <ChartCard title="Spend by operation" icon={PieChart} className={className}>
+      {total <= 0 ? (
+        <p className="text-sm text-gray-500">No spend in this period.</p>
+      ) : (
+        <div className="flex items-center gap-6">
+          <svg
+            viewBox="0 0 42 42"
+            className="h-32 w-32 flex-shrink-0 -rotate-90"
+            role="img"
+            aria-label="Credit spend by operation"
+          >
+            <circle
+              cx={21}
+              cy={21}
+              r={radius}
+              fill="none"
+              strokeWidth={6}
+              className="stroke-gray-800"
+            />
+            {arcs.map((arc) => (
+              <circle
+                key={arc.label}
+                cx={21}
+                cy={21}
+                r={radius}
+                fill="none"
+                stroke={arc.color}
+                strokeWidth={6}
+                strokeDasharray={`${arc.percent} ${100 - arc.percent}`}
+                strokeDashoffset={-arc.start}
+              >
+                <title>
+                  {arc.label}: {arc.total.toFixed(2)} credits
+                </title>
+              </circle>
+            ))}
+          </svg>
+
+          <ul className="flex-1 min-w-0 space-y-2 text-sm">
+            {slices.map((slice) => (
+              <li key={slice.label} className="flex items-center gap-2">
+                <span
+                  className="h-2.5 w-2.5 rounded-full flex-shrink-0"
+                  style={{ backgroundColor: slice.color }}
+                />
+                <span className="flex-1 truncate text-gray-300">
+                  {slice.label}
+                </span>
+                <span className="text-white">{slice.total.toFixed(2)}</span>
+                <span className="w-10 text-right text-gray-500">
+                  {Math.round((slice.total / total) * 100)}%
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </ChartCard>
+  );
+}
+
+// ============================================================================
+// Credit Runway
+// ============================================================================
+
+interface CreditRunwayChartProps {
+  records: CreditUsageRecord[];
+  /** Current balance */
+  balance: number;
+  /** Days of spend the burn rate is averaged over */
+  windowDays?: number;
+  /** Days shown on the projection axis */
+  horizonDays?: number;
+  className?: string;
+}
+
+/**
+ * Projects when the balance runs out at the recent burn rate.
+ *
+ * @example
+ * <CreditRunwayChart records={records} balance={balance} />
+ */
+export function CreditRunwayChart({
+  records,
+  balance,
+  windowDays = 7,
+  horizonDays = 30,
+  className = "",
+}: CreditRunwayChartProps) {
+  const { burnRate, daysLeft, emptyAt } = projectRunway(
+    balance,
+    records,
+    windowDays,
+  );
+
+  const tone =
+    daysLeft === null || daysLeft >= 7
+      ? { text: "text-emerald-400", stroke: "#10b981" }
+      : daysLeft >= 3
+        ? { text: "text-amber-400", stroke: "#f59e0b" }
+        : { text: "text-red-400", stroke: "#f87171" };
+
+  // Balance line from today to empty (or to the edge of the horizon)
+  const end =
+    daysLeft === null
+      ? { x: 100, y: 0 }
+      : daysLeft <= horizonDays
+        ? { x: (daysLeft / horizonDays) * 100, y: 40 }
+        : { x: 100, y: (horizonDays / daysLeft) * 40 };
+
+  return (
+    <ChartCard
+      title="Projected runway"
+      icon={TrendingDown}
+      className={className}
+    >
+      <div className="flex items-baseline gap-3">
+        <p className={`text-2xl font-bold ${tone.text}`}>
+          {daysLeft === null
+            ? "No recent spend"
+            : daysLeft < 1
+              ? "Less than a day"
+              : `${Math.floor(daysLeft)} ${Math.floor(daysLeft) === 1 ? "day" : "days"}`}
+        </p>
+        {emptyAt && (
+          <p className="text-sm text-gray-500">
+            until empty (
+            {emptyAt.toLocaleDateString(undefined, {
+              month: "short",
+              day: "numeric",
+            })}
+            )
+          </p>
+        )}
+      </div>
+
+      <svg
+        viewBox="0 0 100 42"
+        preserveAspectRatio="none"
+        className="h-24 w-full"
+        role="img"
+        aria-label="Projected credit balance"
+      >
+        <line
+          x1={0}
+          x2={100}
+          y1={41}
+          y2={41}
+          className="stroke-gray-800"
+          vectorEffect="non-scaling-stroke"
+        />
+        <polygon
+          points={`0,1 ${end.x},${end.y + 1} ${end.x},41 0,41`}
+          fill={tone.stroke}
+          fillOpacity={0.12}
+        />
+        <line
+          x1={0}
+          y1={1}
+          x2={end.x}
+          y2={end.y + 1}
+          stroke={tone.stroke}
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+
+      <div className="flex justify-between text-xs text-gray-500">
+        <span>Today · {balance.toFixed(2)}</span>
+        <span>
+          {burnRate > 0
+            ? `${burnRate.toFixed(2)}/day over ${windowDays} days`
+            : `+${horizonDays} days`}
+        </span>
+      </div>
+    </ChartCard>
+  );
+}
+
+// ============================================================================
+// Spend Analytics
+// ============================================================================
+
+interface SpendAnalyticsProps {
+  /** Days of usage to chart */
+  days?: number;
+  className?: string;
+}
+
+/**
+ * Daily spend, spend by operation and projected runway for the signed-in
+ * user, loaded from their usage history.
+ *
+ * @example
+ * <SpendAnalytics days={14} />
+ */
+export function SpendAnalytics({
+  days = 30,
+  className = "",
+}: SpendAnalyticsProps) {
+  const { records, loading, error, truncated } = useRecentUsage(days);
+  const { balance, loading: balanceLoading } = useAppCredits();
+
+  if ((loading && records.length === 0) || balanceLoading) {
+    return (
+      <div className={`card-eliza flex justify-center py-10 ${className}`}>
+        <Loader2 className="h-6 w-6 animate-spin text-eliza-orange" />
+      </div>
+    );
+  }
+
+  if (error && records.length === 0) {
+    return (
+      <div className={`card-eliza ${className}`}>
+        <p className="text-sm text-red-400">{error}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`space-y-4 ${className}`}>
+      <DailySpendChart records={records} days={days} />
+      <div className="grid gap-4 md:grid-cols-2">
+        <SpendByOperationChart records={records} />
+        <CreditRunwayChart records={records} balance={balance} />
+      </div>
+      {truncated && (
+        <p className="text-xs text-gray-500">
+          Showing the most recent {records.length} records of this period.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -3,7 +3,8 @@
 /**
  * Eliza Cloud Auth Hook
  *
- * React hook for authentication state management.
+ * React hook for authentication state.
+ * Requires ElizaProvider (already in layout.tsx).
  *
  * @example
  * function Header() {
@@ -19,16 +20,10 @@
  * }
  */
 
-import { useState, useEffect, useCallback, useMemo } from "react";
-import {
-  type ElizaUser,
-  getUser,
-  signIn as authSignIn,
-  signOut as authSignOut,
-  isAuthenticated as checkAuth,
-  refreshSession,
-  type SignInOptions,
-} from "@/lib/eliza-auth";
+import { useContext } from "react";
+import type { ElizaUser, SignInOptions } from "@/lib/eliza-auth";
+import { hasPermission } from "@/lib/eliza-access";
+import { ElizaAuthContext } from "@/components/eliza/auth-provider";
 
 export interface UseElizaAuthReturn {
   /** The authenticated user, or null if not signed in */
@@ -39,8 +34,11 @@ export interface UseElizaAuthReturn {
   loading: boolean;
   /** Any auth error that occurred */
   error: string | null;
-  /** Start the sign-in flow */
-  signIn: (options?: SignInOptions) => void;
+  /**
+   * Start the sign-in flow. In popup mode, resolves with the user once
+   * the popup completes.
+   */
+  signIn: (options?: SignInOptions) => Promise<ElizaUser | null>;
   /** Sign out the current user */
   signOut: () => Promise<void>;
   /** Refresh the user data from the server */
@@ -48,100 +46,45 @@ export interface UseElizaAuthReturn {
 }
 
 /**
- * Hook for managing authentication state.
- * Automatically fetches user on mount and handles session refresh.
- *
- * @param options Configuration options
- * @param options.refreshInterval Auto-refresh interval in ms (default: 5 minutes, 0 to disable)
+ * Access authentication state.
+ * State lives in ElizaProvider, so every caller shares one user fetch and
+ * one session refresh loop, and signs out together when any SDK call
+ * reports an expired session.
  *
  * @example
  * const { user, isAuthenticated, signIn, signOut } = useElizaAuth();
  */
-export function useElizaAuth(options?: {
-  refreshInterval?: number;
-}): UseElizaAuthReturn {
-  const { refreshInterval = 5 * 60 * 1000 } = options || {};
-
-  const [user, setUser] = useState<ElizaUser | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-
-  // Check if we have a token (synchronous)
-  const hasToken = typeof window !== "undefined" && checkAuth();
-
-  // Fetch user data
-  const fetchUser = useCallback(async () => {
-    if (!hasToken) {
-      setUser(null);
-      setLoading(false);
-      return;
-    }
-
-    try {
-      const userData = await getUser();
-      setUser(userData);
-      setError(null);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Failed to fetch user");
-      setUser(null);
-    } finally {
-      setLoading(false);
+export function useElizaAuth(): UseElizaAuthReturn {
+  const context = useContext(ElizaAuthContext);
+  if (!context) {
+    // During SSR or if ElizaProvider is missing, return a safe default
+    // instead of throwing to prevent build/render errors
+    if (typeof window === "undefined") {
+      return {
+        user: null,
+        isAuthenticated: false,
+        loading: true,
+        error: null,
+        signIn: async () => null,
+        signOut: async () => {},
+        refresh: async () => {},
+      };
     }
-  }, [hasToken]);
-
-  // Initial fetch
-  useEffect(() => {
-    fetchUser();
-  }, [fetchUser]);
-
-  // Session refresh interval
-  useEffect(() => {
-    if (!hasToken || refreshInterval <= 0) return;
-
-    const interval = setInterval(async () => {
-      const success = await refreshSession();
-      if (success) {
-        fetchUser();
-      }
-    }, refreshInterval);
-
-    return () => clearInterval(interval);
-  }, [hasToken, refreshInterval, fetchUser]);
-
-  // Sign in handler
-  const signIn = useCallback((options?: SignInOptions) => {
-    authSignIn(options);
-  }, []);
-
-  // Sign out handler
-  const signOut = useCallback(async () => {
-    setLoading(true);
-    await authSignOut();
-    setUser(null);
-    setLoading(false);
-  }, []);
-
-  // Refresh handler
-  const refresh = useCallback(async () => {
-    setLoading(true);
-    await fetchUser();
-  }, [fetchUser]);
-
-  // Memoize return value
-  const value = useMemo(
-    () => ({
-      user,
-      isAuthenticated: !!user,
-      loading,
-      error,
-      signIn,
-      signOut,
-      refresh,
-    }),
-    [user, loading, error, signIn, signOut, refresh],
-  );
+    throw new Error("useElizaAuth must be used within an ElizaProvider");
+  }
+  return context;
+}
 
-  return value;
+/**
+ * Whether the signed-in user has every one of the given permissions.
+ * False while loading and when signed out.
+ *
+ * @example
+ * const canEdit = useHasPermission("projects:write");
+ */
+export function useHasPermission(permission: string | string[]): boolean {
+  const { user } = useElizaAuth();
+  return hasPermission(user, permission);
 }
 
 export default useElizaAuth;
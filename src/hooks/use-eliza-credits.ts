@@ -24,15 +24,24 @@
  * }
  */
 
-import { useState, useEffect, useCallback, useMemo } from "react";
-import {
-  type AppCreditBalance,
-  type PurchaseParams,
-  getAppCredits,
-  purchaseCredits,
-  hasEnoughCredits,
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import type {
+  AppCreditBalance,
+  CreditUsageRecord,
+  PurchaseParams,
+  UsageQuery,
 } from "@/lib/eliza-credits";
-import { isAuthenticated } from "@/lib/eliza-auth";
+import {
+  calculateCost,
+  DEFAULT_PRICE_TABLE,
+  type CostEstimate,
+  type CostEstimateRequest,
+  type LoadedPrices,
+} from "@/lib/eliza-pricing";
+import {
+  useElizaClient,
+  useElizaCredits,
+} from "@/components/eliza/eliza-provider";
 
 export interface UseAppCreditsReturn {
   /** Current credit balance */
@@ -74,6 +83,7 @@ export function useAppCredits(options?: {
   lowBalanceThreshold?: number;
 }): UseAppCreditsReturn {
   const { refreshInterval = 60000, lowBalanceThreshold = 5 } = options || {};
+  const { auth, credits } = useElizaClient();
 
   const [data, setData] = useState<AppCreditBalance>({
     balance: 0,
@@ -83,18 +93,22 @@ export function useAppCredits(options?: {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  const isAuthed = typeof window !== "undefined" && isAuthenticated();
+  // Whether a token is stored; drives auto-refresh
+  const [isAuthed, setIsAuthed] = useState(false);
 
   // Fetch balance
   const fetchBalance = useCallback(async () => {
-    if (!isAuthed) {
+    // Read the token live, another tab may have signed in or out
+    const authenticated = auth.isAuthenticated();
+    setIsAuthed(authenticated);
+    if (!authenticated) {
       setData({ balance: 0, totalPurchased: 0, totalSpent: 0 });
       setLoading(false);
       return;
     }
 
     try {
-      const balance = await getAppCredits();
+      const balance = await credits.getAppCredits();
       setData(balance);
       setError(null);
     } catch (e) {
@@ -102,13 +116,26 @@ export function useAppCredits(options?: {
     } finally {
       setLoading(false);
     }
-  }, [isAuthed]);
+  }, [auth, credits]);
 
   // Initial fetch
   useEffect(() => {
     fetchBalance();
   }, [fetchBalance]);
 
+  // Follow sign-in, sign-out and session expiry in any tab
+  useEffect(() => {
+    return auth.subscribe((event) => {
+      if (
+        event.type === "signed-in" ||
+        event.type === "signed-out" ||
+        event.type === "session-expired"
+      ) {
+        fetchBalance();
+      }
+    });
+  }, [auth, fetchBalance]);
+
   // Auto-refresh
   useEffect(() => {
     if (!isAuthed || refreshInterval <= 0) return;
@@ -120,20 +147,23 @@ export function useAppCredits(options?: {
   const purchase = useCallback(
     async (amount: number, options?: Omit<PurchaseParams, "amount">) => {
       try {
-        const { url } = await purchaseCredits({ amount, ...options });
+        const { url } = await credits.purchaseCredits({ amount, ...options });
         window.location.href = url;
       } catch (e) {
         setError(e instanceof Error ? e.message : "Purchase failed");
         throw e;
       }
     },
-    [],
+    [credits],
   );
 
   // Check credits handler
-  const checkCredits = useCallback(async (required: number) => {
-    return hasEnoughCredits(required);
-  }, []);
+  const checkCredits = useCallback(
+    async (required: number) => {
+      return credits.hasEnoughCredits(required);
+    },
+    [credits],
+  );
 
   // Computed values
   const hasLowBalance = data.balance < lowBalanceThreshold;
@@ -154,4 +184,287 @@ export function useAppCredits(options?: {
   );
 }
 
+export interface UseCreditGateReturn {
+  /** Whether the balance covers `min`. False while loading. */
+  allowed: boolean;
+  /** Whether the balance is still loading */
+  loading: boolean;
+  /** Current credit balance */
+  balance: number;
+  /** Credits still needed to reach `min` (0 when allowed) */
+  shortfall: number;
+  /** Refresh balance from server */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Gate a feature on the user's credit balance.
+ * Pair with `<RequireCredits>` for the default top-up UI. Reads the
+ * balance ElizaProvider already keeps, so gates don't poll on their own.
+ *
+ * @param min Credits the feature needs
+ *
+ * @example
+ * const { allowed, shortfall } = useCreditGate(5);
+ * if (!allowed) return <p>You need ${shortfall.toFixed(2)} more credits.</p>;
+ */
+export function useCreditGate(min: number): UseCreditGateReturn {
+  const credits = useElizaCredits();
+  // Background refreshes keep the last balance instead of reloading the gate
+  const loading = credits.balance === null && !credits.error;
+  const balance = credits.balance ?? 0;
+  const refresh = credits.refresh;
+  const shortfall = Math.max(0, min - balance);
+
+  return useMemo(
+    () => ({
+      allowed: !loading && shortfall === 0,
+      loading,
+      balance,
+      shortfall,
+      refresh,
+    }),
+    [loading, balance, shortfall, refresh],
+  );
+}
+
+export type UsageHistoryFilters = Pick<UsageQuery, "operation" | "from" | "to">;
+
+export interface UseUsageHistoryReturn {
+  /** Records loaded so far, newest first */
+  records: CreditUsageRecord[];
+  /** Whether a page is loading */
+  loading: boolean;
+  error: string | null;
+  /** Whether there are more pages to load */
+  hasMore: boolean;
+  /** Active filters */
+  filters: UsageHistoryFilters;
+  /** Replace the filters and reload from the first page */
+  setFilters: (filters: UsageHistoryFilters) => void;
+  /** Load the next page */
+  loadMore: () => Promise<void>;
+  /** Reload from the first page */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for paging through the user's credit usage, optionally filtered
+ * by operation and date range. Pair with `<UsageHistoryTable>` for the
+ * default UI.
+ *
+ * @example
+ * const { records, hasMore, loadMore, setFilters } = useUsageHistory();
+ * setFilters({ operation: "image", from: "2025-01-01" });
+ */
+export function useUsageHistory(
+  options: UsageHistoryFilters & { pageSize?: number } = {},
+): UseUsageHistoryReturn {
+  const { pageSize = 50, ...initialFilters } = options;
+  const { auth, credits } = useElizaClient();
+
+  const [filters, setFilters] = useState<UsageHistoryFilters>(initialFilters);
+  const [records, setRecords] = useState<CreditUsageRecord[]>([]);
+  const [cursor, setCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  // Drops pages that arrive after the filters changed
+  const requestId = useRef(0);
+
+  const fetchPage = useCallback(
+    async (from: string | null) => {
+      const id = ++requestId.current;
+      setLoading(true);
+      try {
+        const page = await credits.getUsagePage({
+          ...filters,
+          limit: pageSize,
+          cursor: from,
+        });
+        if (id !== requestId.current) return;
+        setRecords((prev) =>
+          from ? [...prev, ...page.records] : page.records,
+        );
+        setCursor(page.nextCursor);
+        setError(null);
+      } catch (e) {
+        if (id !== requestId.current) return;
+        setError(e instanceof Error ? e.message : "Failed to fetch usage");
+      } finally {
+        if (id === requestId.current) setLoading(false);
+      }
+    },
+    [credits, filters, pageSize],
+  );
+
+  const refresh = useCallback(() => fetchPage(null), [fetchPage]);
+
+  const loadMore = useCallback(async () => {
+    if (cursor && !loading) await fetchPage(cursor);
+  }, [cursor, loading, fetchPage]);
+
+  // First page, again whenever the filters change
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Follow sign-in, sign-out and session expiry in any tab
+  useEffect(() => {
+    return auth.subscribe((event) => {
+      if (
+        event.type === "signed-in" ||
+        event.type === "signed-out" ||
+        event.type === "session-expired"
+      ) {
+        refresh();
+      }
+    });
+  }, [auth, refresh]);
+
+  return useMemo(
+    () => ({
+      records,
+      loading,
+      error,
+      hasMore: cursor !== null,
+      filters,
+      setFilters,
+      loadMore,
+      refresh,
+    }),
+    [records, loading, error, cursor, filters, loadMore, refresh],
+  );
+}
+
+export interface UseRecentUsageReturn {
+  /** Every usage record of the window (up to `maxRecords`) */
+  records: CreditUsageRecord[];
+  loading: boolean;
+  error: string | null;
+  /** Whether `maxRecords` cut the window short */
+  truncated: boolean;
+  /** Reload the window */
+  refresh: () => Promise<void>;
+}
+
+/**
+ * Hook for all usage of the last `days` days, e.g. for spend charts.
+ * Follows the usage cursor until the window is covered.
+ *
+ * @example
+ * const { records } = useRecentUsage(30);
+ * const series = dailySpend(records, 30);
+ */
+export function useRecentUsage(
+  days = 30,
+  options: { maxRecords?: number } = {},
+): UseRecentUsageReturn {
+  const { maxRecords = 1000 } = options;
+  const { auth, credits } = useElizaClient();
+
+  const [records, setRecords] = useState<CreditUsageRecord[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [truncated, setTruncated] = useState(false);
+  const requestId = useRef(0);
+
+  const refresh = useCallback(async () => {
+    const id = ++requestId.current;
+    setLoading(true);
+
+    const from = new Date();
+    from.setHours(0, 0, 0, 0);
+    from.setDate(from.getDate() - (days - 1));
+
+    try {
+      const all: CreditUsageRecord[] = [];
+      let cursor: string | null = null;
+      do {
+        const page = await credits.getUsagePage({
+          from,
+          cursor,
+          limit: Math.min(100, maxRecords - all.length),
+        });
+        all.push(...page.records);
+        cursor = page.nextCursor;
+      } while (cursor && all.length < maxRecords);
+
+      if (id !== requestId.current) return;
+      setRecords(all);
+      setTruncated(cursor !== null);
+      setError(null);
+    } catch (e) {
+      if (id !== requestId.current) return;
+      setError(e instanceof Error ? e.message : "Failed to fetch usage");
+    } finally {
+      if (id === requestId.current) setLoading(false);
+    }
+  }, [credits, days, maxRecords]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Follow sign-in, sign-out and session expiry in any tab
+  useEffect(() => {
+    return auth.subscribe((event) => {
+      if (
+        event.type === "signed-in" ||
+        event.type === "signed-out" ||
+        event.type === "session-expired"
+      ) {
+        refresh();
+      }
+    });
+  }, [auth, refresh]);
+
+  return useMemo(
+    () => ({ records, loading, error, truncated, refresh }),
+    [records, loading, error, truncated, refresh],
+  );
+}
+
+export interface UseCostEstimateReturn {
+  /** Estimate for the request, or null without one */
+  estimate: CostEstimate | null;
+  /** Whether the price table is still loading (the estimate uses built-in prices until then) */
+  loading: boolean;
+}
+
+/**
+ * Hook for estimating a call's cost while the user composes it.
+ * Loads the price table once per client; estimates update on every render.
+ *
+ * @example
+ * const { estimate } = useCostEstimate({ operation: "video", duration });
+ * <span>~{estimate?.credits.toFixed(2)} credits</span>
+ */
+export function useCostEstimate(
+  request: CostEstimateRequest | null,
+): UseCostEstimateReturn {
+  const { pricing } = useElizaClient();
+  const [prices, setPrices] = useState<LoadedPrices | null>(null);
+
+  useEffect(() => {
+    let active = true;
+    pricing.getPriceTable().then((loaded) => {
+      if (active) setPrices(loaded);
+    });
+    return () => {
+      active = false;
+    };
+  }, [pricing]);
+
+  return {
+    estimate: request
+      ? calculateCost(
+          request,
+          prices?.table ?? DEFAULT_PRICE_TABLE,
+          prices?.source ?? "fallback",
+        )
+      : null,
+    loading: prices === null,
+  };
+}
+
 export default useAppCredits;
@@ -5,14 +5,26 @@
  *
  * Pre-built hooks for common Eliza Cloud operations.
  * Handles loading states, errors, and caching automatically.
+ *
+ * The generation hooks (chat, image, video, speech) can check the balance
+ * against the estimated cost before sending (`preflight`). When a request
+ * runs out of credits they expose `needsTopUp` and report it to the
+ * provider; after the user buys credits and returns from
+ * /billing/success, the request is sent again.
+ *
+ * @example
+ * const { generate, result, needsTopUp } = useImageGeneration({
+ *   preflight: true,
+ * });
  */
 
-import { useState, useCallback, useEffect } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import { usePathname } from "next/navigation";
 import type {
   ChatMessage,
   ChatResponse,
   StreamChunk,
+  ImageOptions,
   ImageResult,
   Agent,
   AgentChatResponse,
@@ -20,110 +32,428 @@ import type {
   AppCharacter,
   Room,
   EmbeddingsResponse,
+  RequestOptions,
 } from "@/lib/eliza";
+import { InsufficientCreditsError, isAbortError } from "@/lib/eliza-errors";
+import type { CostEstimateRequest, CostOperation } from "@/lib/eliza-pricing";
+import { takePendingRetry, type NeedsTopUp } from "@/lib/eliza-topup";
+import {
+  useElizaClient,
+  useElizaTopUp,
+} from "@/components/eliza/eliza-provider";
+
+// ============================================================================
+// Request Control
+// ============================================================================
+
+export interface RetryStatus {
+  /** The attempt in progress (2 for the first retry) */
+  attempt: number;
+  maxAttempts: number;
+}
+
+/**
+ * Tracks a hook's in-flight request: its AbortController and retry status.
+ * Starting a new request aborts the previous one, and any pending request
+ * is aborted when the component unmounts. A superseded request settles
+ * after its replacement has started, so hooks only update loading and
+ * error state while `isCurrent(request)`.
+ */
+function useRequestControl() {
+  const controllerRef = useRef<AbortController | null>(null);
+  const [retrying, setRetrying] = useState<RetryStatus | null>(null);
+
+  const begin = useCallback((): RequestOptions => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setRetrying(null);
+    return {
+      signal: controller.signal,
+      onRetry: ({ attempt, maxAttempts }) => {
+        if (controllerRef.current === controller) {
+          setRetrying({ attempt, maxAttempts });
+        }
+      },
+    };
+  }, []);
+
+  // The aborted request stays current, so it still clears its own state
+  const abort = useCallback(() => controllerRef.current?.abort(), []);
+
+  const isCurrent = useCallback(
+    (request: RequestOptions) =>
+      controllerRef.current?.signal === request.signal,
+    [],
+  );
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { begin, abort, isCurrent, retrying };
+}
+
+// ============================================================================
+// Credit Recovery
+// ============================================================================
+
+export interface CreditRecoveryOptions<A extends unknown[], R> {
+  /**
+   * Check the balance against the request's estimated cost before sending
+   * it, failing with INSUFFICIENT_CREDITS instead of making the call.
+   * @default false
+   */
+  preflight?: boolean;
+  /**
+   * Identifies this hook's requests when they're sent again after a
+   * top-up. Give hooks of the same kind on one page distinct keys; false
+   * turns the automatic retry off.
+   * @default the operation, e.g. "image"
+   */
+  retryKey?: string | false;
+  /** Called with the result of a request sent again after a top-up */
+  onRecovered?: (result: R, ...args: A) => void;
+}
+
+/**
+ * Pre-flight balance checks and `needsTopUp` state for a generation hook.
+ * `estimate` maps the hook's arguments to a cost estimate request and
+ * must be stable (module-level).
+ */
+function useCreditRecovery<A extends unknown[], R>(
+  operation: CostOperation,
+  options: CreditRecoveryOptions<A, R>,
+  estimate: (args: NoInfer<A>) => CostEstimateRequest,
+) {
+  const client = useElizaClient();
+  const { requestTopUp } = useElizaTopUp();
+  const [needsTopUp, setNeedsTopUp] = useState<NeedsTopUp | null>(null);
+  const runRef = useRef<((...args: A) => Promise<R | null>) | null>(null);
+  const preflight = options.preflight ?? false;
+  const retryKey =
+    options.retryKey === false ? null : (options.retryKey ?? operation);
+
+  // Throws InsufficientCreditsError when the balance is short
+  const check = useCallback(
+    async (args: A, request: RequestOptions) => {
+      setNeedsTopUp(null);
+      if (!preflight || !client.auth.isAuthenticated()) return;
+
+      const [cost, credits] = await Promise.all([
+        client.pricing.estimateCost(estimate(args), request),
+        client.credits.getAppCredits(request).catch((e) => {
+          if (isAbortError(e)) throw e;
+          // The server still enforces the balance
+          return null;
+        }),
+      ]);
+      if (credits && credits.balance < cost.credits) {
+        throw new InsufficientCreditsError(undefined, {
+          body: { required: cost.credits, balance: credits.balance },
+        });
+      }
+    },
+    [client, preflight, estimate],
+  );
+
+  const report = useCallback(
+    (error: unknown, args: A) => {
+      if (!(error instanceof InsufficientCreditsError)) return;
+
+      // Pre-flight checks (and some servers) say how much was missing
+      const body =
+        error.body && typeof error.body === "object"
+          ? (error.body as Record<string, unknown>)
+          : {};
+      const required = typeof body.required === "number" ? body.required : null;
+      const balance = typeof body.balance === "number" ? body.balance : null;
+
+      const needs: NeedsTopUp = {
+        operation,
+        required,
+        balance,
+        shortfall:
+          required !== null && balance !== null ? required - balance : null,
+        retryKey,
+        args,
+        retry: async () => {
+          await runRef.current?.(...args);
+        },
+      };
+      setNeedsTopUp(needs);
+      requestTopUp(needs);
+    },
+    [operation, retryKey, requestTopUp],
+  );
+
+  const clear = useCallback(() => setNeedsTopUp(null), []);
+
+  return { needsTopUp, retryKey, runRef, check, report, clear };
+}
+
+/**
+ * Send a request saved before checkout again once the user is back on the
+ * page it was made on, and keep `needsTopUp.retry` pointing at `run`.
+ */
+function useRetryAfterTopUp<A extends unknown[], R>(
+  recovery: ReturnType<typeof useCreditRecovery<A, R>>,
+  run: (...args: A) => Promise<R | null>,
+  onRecovered?: (result: R, ...args: A) => void,
+) {
+  const pathname = usePathname();
+  const { retryKey, runRef } = recovery;
+  const onRecoveredRef = useRef(onRecovered);
+
+  useEffect(() => {
+    runRef.current = run;
+    onRecoveredRef.current = onRecovered;
+  });
+
+  useEffect(() => {
+    if (!retryKey) return;
+    // Deferred so a Strict Mode remount doesn't abort the request
+    const timer = setTimeout(() => {
+      const pending = takePendingRetry(retryKey, pathname);
+      if (!pending) return;
+      const args = pending.args as A;
+      runRef.current?.(...args).then((result) => {
+        if (result !== null) onRecoveredRef.current?.(result, ...args);
+      });
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [retryKey, pathname, runRef]);
+}
+
+type VideoOptions = { model?: string; duration?: number };
+
+const chatCost = ([messages, model]: [
+  ChatMessage[],
+  string?,
+]): CostEstimateRequest => ({ operation: "chat", messages, model });
+
+const imageCost = ([, options]: [
+  string,
+  ImageOptions?,
+]): CostEstimateRequest => ({
+  operation: "image",
+  model: options?.model,
+  numImages: options?.numImages,
+  width: options?.width,
+  height: options?.height,
+});
+
+const videoCost = ([, options]: [
+  string,
+  VideoOptions?,
+]): CostEstimateRequest => ({
+  operation: "video",
+  model: options?.model,
+  duration: options?.duration,
+});
+
+const speechCost = ([text]: [string, unknown?]): CostEstimateRequest => ({
+  operation: "tts",
+  text,
+});
 
 // ============================================================================
 // Chat Hooks
 // ============================================================================
 
-export function useChat() {
+export function useChat(
+  options: CreditRecoveryOptions<
+    [messages: ChatMessage[], model?: string],
+    ChatResponse
+  > = {},
+) {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
+  const recovery = useCreditRecovery("chat", options, chatCost);
+  const { check, report, clear } = recovery;
 
   const send = useCallback(
     async (
       messages: ChatMessage[],
       model?: string,
     ): Promise<ChatResponse | null> => {
+      const request = begin();
       setLoading(true);
       setError(null);
       try {
-        const { chat } = await import("@/lib/eliza");
-        return await chat(messages, model);
+        await check([messages, model], request);
+        return await client.chat(messages, model, request);
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Unknown error");
+        if (!isAbortError(e) && isCurrent(request)) {
+          setError(e instanceof Error ? e.message : "Unknown error");
+          report(e, [messages, model]);
+        }
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [],
+    [client, begin, isCurrent, check, report],
   );
 
-  return { send, loading, error, reset: useCallback(() => setError(null), []) };
+  useRetryAfterTopUp(recovery, send, options.onRecovered);
+
+  return {
+    send,
+    abort,
+    loading,
+    retrying: loading ? retrying : null,
+    error,
+    needsTopUp: recovery.needsTopUp,
+    reset: useCallback(() => {
+      setError(null);
+      clear();
+    }, [clear]),
+  };
 }
 
-export function useChatStream() {
+/**
+ * Streaming chat. `text` accumulates the streamed reply and is kept
+ * when the stream is aborted, so a stopped generation stays visible.
+ * A stream sent again after a top-up is read by the hook, so its reply
+ * arrives through `text` and `onRecovered`.
+ */
+export function useChatStream(
+  options: CreditRecoveryOptions<
+    [messages: ChatMessage[], model?: string],
+    string
+  > = {},
+) {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [text, setText] = useState("");
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
+  const recovery = useCreditRecovery("chat", options, chatCost);
+  const { check, report } = recovery;
 
-  const stream = useCallback(async function* (
-    messages: ChatMessage[],
-    model?: string,
-  ): AsyncGenerator<StreamChunk> {
-    setLoading(true);
-    setError(null);
-    try {
-      const { chatStream } = await import("@/lib/eliza");
-      yield* chatStream(messages, model);
-    } catch (e) {
-      setError(e instanceof Error ? e.message : "Unknown error");
-    } finally {
-      setLoading(false);
-    }
-  }, []);
+  const stream = useCallback(
+    async function* (
+      messages: ChatMessage[],
+      model?: string,
+    ): AsyncGenerator<StreamChunk> {
+      const request = begin();
+      setLoading(true);
+      setError(null);
+      setText("");
+      try {
+        await check([messages, model], request);
+        for await (const chunk of client.chatStream(messages, model, request)) {
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) setText((prev) => prev + delta);
+          yield chunk;
+        }
+      } catch (e) {
+        // Aborting ends the stream quietly, keeping the partial text
+        if (isAbortError(e)) return;
+        if (isCurrent(request)) {
+          setError(e instanceof Error ? e.message : "Unknown error");
+          report(e, [messages, model]);
+        }
+        throw e;
+      } finally {
+        if (isCurrent(request)) setLoading(false);
+      }
+    },
+    [client, begin, isCurrent, check, report],
+  );
+
+  // Read a stream nobody is iterating, resolving to the full reply
+  const readStream = useCallback(
+    async (messages: ChatMessage[], model?: string) => {
+      let reply = "";
+      try {
+        for await (const chunk of stream(messages, model)) {
+          reply += chunk.choices?.[0]?.delta?.content ?? "";
+        }
+        return reply;
+      } catch {
+        return null;
+      }
+    },
+    [stream],
+  );
+
+  useRetryAfterTopUp(recovery, readStream, options.onRecovered);
 
-  return { stream, loading, error };
+  return {
+    stream,
+    abort,
+    text,
+    loading,
+    retrying: loading ? retrying : null,
+    error,
+    needsTopUp: recovery.needsTopUp,
+  };
 }
 
 // ============================================================================
 // Image Generation
 // ============================================================================
 
-export function useImageGeneration() {
+export function useImageGeneration(
+  recoveryOptions: CreditRecoveryOptions<
+    [prompt: string, options?: ImageOptions],
+    ImageResult
+  > = {},
+) {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<ImageResult | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
+  const recovery = useCreditRecovery("image", recoveryOptions, imageCost);
+  const { check, report, clear } = recovery;
 
   const generate = useCallback(
     async (
       prompt: string,
-      options?: {
-        model?: string;
-        width?: number;
-        height?: number;
-        aspectRatio?: string;
-      },
+      options?: ImageOptions,
     ): Promise<ImageResult | null> => {
+      const request = begin();
       setLoading(true);
       setError(null);
       try {
-        const { generateImage } = await import("@/lib/eliza");
-        const imageResult = await generateImage(
-          prompt,
-          options as Parameters<typeof generateImage>[1],
-        );
+        await check([prompt, options], request);
+        const imageResult = await client.generateImage(prompt, {
+          ...options,
+          ...request,
+        });
         setResult(imageResult);
         return imageResult;
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Unknown error");
+        if (!isAbortError(e) && isCurrent(request)) {
+          setError(e instanceof Error ? e.message : "Unknown error");
+          report(e, [prompt, options]);
+        }
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [],
+    [client, begin, isCurrent, check, report],
   );
 
+  useRetryAfterTopUp(recovery, generate, recoveryOptions.onRecovered);
+
   return {
     generate,
+    abort,
     loading,
+    retrying: loading ? retrying : null,
     error,
     result,
+    needsTopUp: recovery.needsTopUp,
     reset: useCallback(() => {
       setResult(null);
       setError(null);
-    }, []),
+      clear();
+    }, [clear]),
   };
 }
 
@@ -131,42 +461,61 @@ export function useImageGeneration() {
 // Video Generation
 // ============================================================================
 
-export function useVideoGeneration() {
+export function useVideoGeneration(
+  recoveryOptions: CreditRecoveryOptions<
+    [prompt: string, options?: VideoOptions],
+    string
+  > = {},
+) {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
+  const recovery = useCreditRecovery("video", recoveryOptions, videoCost);
+  const { check, report, clear } = recovery;
 
   const generate = useCallback(
-    async (
-      prompt: string,
-      options?: { model?: string; duration?: number },
-    ): Promise<string | null> => {
+    async (prompt: string, options?: VideoOptions): Promise<string | null> => {
+      const request = begin();
       setLoading(true);
       setError(null);
       try {
-        const { generateVideo } = await import("@/lib/eliza");
-        const result = await generateVideo(prompt, options);
+        await check([prompt, options], request);
+        const result = await client.generateVideo(prompt, {
+          ...options,
+          ...request,
+        });
         setVideoUrl(result.url);
         return result.url;
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Unknown error");
+        if (!isAbortError(e) && isCurrent(request)) {
+          setError(e instanceof Error ? e.message : "Unknown error");
+          report(e, [prompt, options]);
+        }
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [],
+    [client, begin, isCurrent, check, report],
   );
 
+  useRetryAfterTopUp(recovery, generate, recoveryOptions.onRecovered);
+
   return {
     generate,
+    abort,
     loading,
+    retrying: loading ? retrying : null,
     error,
     videoUrl,
+    needsTopUp: recovery.needsTopUp,
     reset: useCallback(() => {
       setVideoUrl(null);
       setError(null);
-    }, []),
+      clear();
+    }, [clear]),
   };
 }
 
@@ -174,34 +523,52 @@ export function useVideoGeneration() {
 // Text-to-Speech
 // ============================================================================
 
-export function useTextToSpeech() {
+export function useTextToSpeech(
+  recoveryOptions: CreditRecoveryOptions<
+    [text: string, options?: { voiceId?: string }],
+    string
+  > = {},
+) {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
+  const recovery = useCreditRecovery("tts", recoveryOptions, speechCost);
+  const { check, report, clear } = recovery;
 
   const speak = useCallback(
     async (
       text: string,
       options?: { voiceId?: string },
     ): Promise<string | null> => {
+      const request = begin();
       setLoading(true);
       setError(null);
       try {
-        const { textToSpeech } = await import("@/lib/eliza");
-        const blob = await textToSpeech(text, options);
+        await check([text, options], request);
+        const blob = await client.textToSpeech(text, {
+          ...options,
+          ...request,
+        });
         const url = URL.createObjectURL(blob);
         setAudioUrl(url);
         return url;
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Unknown error");
+        if (!isAbortError(e) && isCurrent(request)) {
+          setError(e instanceof Error ? e.message : "Unknown error");
+          report(e, [text, options]);
+        }
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [],
+    [client, begin, isCurrent, check, report],
   );
 
+  useRetryAfterTopUp(recovery, speak, recoveryOptions.onRecovered);
+
   const play = useCallback(() => {
     if (audioUrl) {
       const audio = new Audio(audioUrl);
@@ -212,13 +579,17 @@ export function useTextToSpeech() {
   return {
     speak,
     play,
+    abort,
     loading,
+    retrying: loading ? retrying : null,
     error,
     audioUrl,
+    needsTopUp: recovery.needsTopUp,
     reset: useCallback(() => {
       setAudioUrl(null);
       setError(null);
-    }, []),
+      clear();
+    }, [clear]),
   };
 }
 
@@ -227,30 +598,39 @@ export function useTextToSpeech() {
 // ============================================================================
 
 export function useEmbeddings() {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
 
   const embed = useCallback(
     async (
       input: string | string[],
       model?: string,
     ): Promise<EmbeddingsResponse | null> => {
+      const request = begin();
       setLoading(true);
       setError(null);
       try {
-        const { createEmbeddings } = await import("@/lib/eliza");
-        return await createEmbeddings(input, model);
+        return await client.createEmbeddings(input, model, request);
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Unknown error");
+        if (!isAbortError(e) && isCurrent(request))
+          setError(e instanceof Error ? e.message : "Unknown error");
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [],
+    [client, begin, isCurrent],
   );
 
-  return { embed, loading, error };
+  return {
+    embed,
+    abort,
+    loading,
+    retrying: loading ? retrying : null,
+    error,
+  };
 }
 
 // ============================================================================
@@ -258,6 +638,7 @@ export function useEmbeddings() {
 // ============================================================================
 
 export function useAgents() {
+  const client = useElizaClient();
   const [agents, setAgents] = useState<Agent[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -267,8 +648,7 @@ export function useAgents() {
     setLoading(true);
     setError(null);
     try {
-      const { listAgents } = await import("@/lib/eliza");
-      const result = await listAgents();
+      const result = await client.listAgents();
       setAgents(result);
       return result;
     } catch (e) {
@@ -277,7 +657,7 @@ export function useAgents() {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [client]);
 
   useEffect(() => {
     fetchAgents();
@@ -289,8 +669,7 @@ export function useAgents() {
       message: string,
     ): Promise<AgentChatResponse | null> => {
       try {
-        const { chatWithAgent } = await import("@/lib/eliza");
-        const response = await chatWithAgent(
+        const response = await client.chatWithAgent(
           agentId,
           message,
           roomIds[agentId],
@@ -303,13 +682,14 @@ export function useAgents() {
         return null;
       }
     },
-    [roomIds],
+    [client, roomIds],
   );
 
   return { agents, loading, error, refresh: fetchAgents, chatWith, roomIds };
 }
 
 export function useAgentChat(agentId: string) {
+  const client = useElizaClient();
   const [agent, setAgent] = useState<Agent | null>(null);
   const [messages, setMessages] = useState<
     Array<{ role: "user" | "assistant"; content: string }>
@@ -318,13 +698,13 @@ export function useAgentChat(agentId: string) {
   const [loading, setLoading] = useState(false);
   const [agentLoading, setAgentLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
 
   useEffect(() => {
     const fetchAgent = async () => {
       setAgentLoading(true);
       try {
-        const { getAgent } = await import("@/lib/eliza");
-        setAgent(await getAgent(agentId));
+        setAgent(await client.getAgent(agentId));
       } catch {
         setError("Failed to load agent");
       } finally {
@@ -332,20 +712,22 @@ export function useAgentChat(agentId: string) {
       }
     };
     fetchAgent();
-  }, [agentId]);
+  }, [client, agentId]);
 
   const send = useCallback(
     async (message: string): Promise<string | null> => {
+      const request = begin();
+      const sent = { role: "user" as const, content: message };
       setLoading(true);
       setError(null);
-      setMessages((prev) => [...prev, { role: "user", content: message }]);
+      setMessages((prev) => [...prev, sent]);
 
       try {
-        const { chatWithAgent } = await import("@/lib/eliza");
-        const response = await chatWithAgent(
+        const response = await client.chatWithAgent(
           agentId,
           message,
           roomId || undefined,
+          request,
         );
         if (response.roomId) setRoomId(response.roomId);
         setMessages((prev) => [
@@ -354,17 +736,29 @@ export function useAgentChat(agentId: string) {
         ]);
         return response.text;
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Chat failed");
-        setMessages((prev) => prev.slice(0, -1));
+        if (!isAbortError(e) && isCurrent(request))
+          setError(e instanceof Error ? e.message : "Chat failed");
+        // Remove only this send's message; a newer send may have added more
+        setMessages((prev) => prev.filter((m) => m !== sent));
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [agentId, roomId],
+    [client, agentId, roomId, begin, isCurrent],
   );
 
-  return { agent, messages, send, loading, agentLoading, error, roomId };
+  return {
+    agent,
+    messages,
+    send,
+    abort,
+    loading,
+    retrying: loading ? retrying : null,
+    agentLoading,
+    error,
+    roomId,
+  };
 }
 
 // ============================================================================
@@ -372,30 +766,41 @@ export function useAgentChat(agentId: string) {
 // ============================================================================
 
 export function useFileUpload() {
+  const client = useElizaClient();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [result, setResult] = useState<UploadResult | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
 
   const upload = useCallback(
     async (file: File, filename?: string): Promise<UploadResult | null> => {
+      const request = begin();
       setLoading(true);
       setError(null);
       try {
-        const { uploadFile } = await import("@/lib/eliza");
-        const uploadResult = await uploadFile(file, filename);
+        const uploadResult = await client.uploadFile(file, filename, request);
         setResult(uploadResult);
         return uploadResult;
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Upload failed");
+        if (!isAbortError(e) && isCurrent(request))
+          setError(e instanceof Error ? e.message : "Upload failed");
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [],
+    [client, begin, isCurrent],
   );
 
-  return { upload, loading, error, result, uploadedUrl: result?.url || null };
+  return {
+    upload,
+    abort,
+    loading,
+    retrying: loading ? retrying : null,
+    error,
+    result,
+    uploadedUrl: result?.url || null,
+  };
 }
 
 // ============================================================================
@@ -403,6 +808,7 @@ export function useFileUpload() {
 // ============================================================================
 
 export function useCredits(refreshInterval?: number) {
+  const client = useElizaClient();
   const [balance, setBalance] = useState<number | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -411,8 +817,7 @@ export function useCredits(refreshInterval?: number) {
     setLoading(true);
     setError(null);
     try {
-      const { getBalance } = await import("@/lib/eliza");
-      const result = await getBalance();
+      const result = await client.getBalance();
       setBalance(result.balance);
       return result.balance;
     } catch (e) {
@@ -421,7 +826,7 @@ export function useCredits(refreshInterval?: number) {
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [client]);
 
   useEffect(() => {
     refresh();
@@ -441,19 +846,12 @@ export function useCredits(refreshInterval?: number) {
 // ============================================================================
 
 export function usePageTracking() {
+  const client = useElizaClient();
   const pathname = usePathname();
 
   useEffect(() => {
-    const track = async () => {
-      try {
-        const { trackPageView } = await import("@/lib/eliza");
-        trackPageView(pathname);
-      } catch {
-        /* Silent */
-      }
-    };
-    track();
-  }, [pathname]);
+    client.trackPageView(pathname);
+  }, [client, pathname]);
 }
 
 // ============================================================================
@@ -461,6 +859,7 @@ export function usePageTracking() {
 // ============================================================================
 
 export function useAppCharacters() {
+  const client = useElizaClient();
   const [characters, setCharacters] = useState<AppCharacter[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -469,14 +868,13 @@ export function useAppCharacters() {
     setLoading(true);
     setError(null);
     try {
-      const { getAppCharacters } = await import("@/lib/eliza");
-      setCharacters(await getAppCharacters());
+      setCharacters(await client.getAppCharacters());
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to load characters");
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [client]);
 
   useEffect(() => {
     refresh();
@@ -486,6 +884,7 @@ export function useAppCharacters() {
 }
 
 export function useCharacterChat(characterId?: string) {
+  const client = useElizaClient();
   const [room, setRoom] = useState<Room | null>(null);
   const [messages, setMessages] = useState<
     Array<{ role: "user" | "assistant"; content: string; isThinking?: boolean }>
@@ -493,6 +892,7 @@ export function useCharacterChat(characterId?: string) {
   const [loading, setLoading] = useState(false);
   const [roomLoading, setRoomLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const { begin, abort, isCurrent, retrying } = useRequestControl();
 
   const createRoom = useCallback(
     async (charId?: string) => {
@@ -505,8 +905,7 @@ export function useCharacterChat(characterId?: string) {
       setRoomLoading(true);
       setError(null);
       try {
-        const { createCharacterRoom } = await import("@/lib/eliza");
-        const newRoom = await createCharacterRoom(targetId);
+        const newRoom = await client.createCharacterRoom(targetId);
         setRoom(newRoom);
         setMessages([]);
         return newRoom;
@@ -517,7 +916,7 @@ export function useCharacterChat(characterId?: string) {
         setRoomLoading(false);
       }
     },
-    [characterId],
+    [client, characterId],
   );
 
   useEffect(() => {
@@ -534,41 +933,45 @@ export function useCharacterChat(characterId?: string) {
         return null;
       }
 
+      const request = begin();
+      const sent = { role: "user" as const, content: message };
+      // The entry streamed chunks go to; replaced on each chunk
+      let reply: (typeof messages)[number] = {
+        role: "assistant",
+        content: "",
+        isThinking: true,
+      };
       setLoading(true);
       setError(null);
-      setMessages((prev) => [...prev, { role: "user", content: message }]);
-      setMessages((prev) => [
-        ...prev,
-        { role: "assistant", content: "", isThinking: true },
-      ]);
+      setMessages((prev) => [...prev, sent, reply]);
 
+      let text = "";
       try {
-        const { sendCharacterMessage } = await import("@/lib/eliza");
-        let text = "";
-        const result = await sendCharacterMessage(room.id, message, {
+        const result = await client.sendCharacterMessage(room.id, message, {
           ...options,
+          ...request,
           onChunk: (chunk) => {
             text += chunk;
-            setMessages((prev) => {
-              const updated = [...prev];
-              updated[updated.length - 1] = {
-                role: "assistant",
-                content: text,
-              };
-              return updated;
-            });
+            const previous = reply;
+            const next = { role: "assistant" as const, content: text };
+            reply = next;
+            setMessages((prev) => prev.map((m) => (m === previous ? next : m)));
           },
         });
         return result.text;
       } catch (e) {
-        setError(e instanceof Error ? e.message : "Chat failed");
-        setMessages((prev) => prev.slice(0, -1));
+        // Keep whatever was streamed before the user stopped the reply
+        if (isAbortError(e) && text) return text;
+        if (!isAbortError(e) && isCurrent(request))
+          setError(e instanceof Error ? e.message : "Chat failed");
+        // Remove only this send's entries; a newer send may have added more
+        setMessages((prev) => prev.filter((m) => m !== sent && m !== reply));
         return null;
       } finally {
-        setLoading(false);
+        if (isCurrent(request)) setLoading(false);
       }
     },
-    [room],
+    [client, room, begin, isCurrent],
   );
 
   return {
@@ -579,15 +982,19 @@ export function useCharacterChat(characterId?: string) {
     error,
     createRoom,
     send,
+    abort,
+    retrying: loading ? retrying : null,
     reset: useCallback(() => {
+      abort();
       setMessages([]);
       setRoom(null);
       setError(null);
-    }, []),
+    }, [abort]),
   };
 }
 
 export function useCharacterRooms() {
+  const client = useElizaClient();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -596,14 +1003,13 @@ export function useCharacterRooms() {
     setLoading(true);
     setError(null);
     try {
-      const { getCharacterRooms } = await import("@/lib/eliza");
-      setRooms(await getCharacterRooms());
+      setRooms(await client.getCharacterRooms());
     } catch (e) {
       setError(e instanceof Error ? e.message : "Failed to load rooms");
     } finally {
       setLoading(false);
     }
-  }, []);
+  }, [client]);
 
   useEffect(() => {
     refresh();
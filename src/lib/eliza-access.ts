@@ -0,0 +1,79 @@
+/**
+ * Eliza Cloud Access Checks
+ *
+ * Role and permission checks against the `roles` and `permissions` the
+ * session endpoint returns on `ElizaUser`. Used by `ProtectedRoute`,
+ * `<Can>` and `useHasPermission`, and usable on the server too.
+ *
+ * @example
+ * if (hasPermission(user, "projects:write")) showEditor();
+ *
+ * checkAccess(user, { requireRole: ["admin", "owner"] });
+ */
+
+import type { ElizaUser } from "./eliza-auth";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface AccessRequirement {
+  /** The user needs at least one of these roles */
+  requireRole?: string | string[];
+  /** The user needs every one of these permissions */
+  requirePermission?: string | string[];
+  /** Custom check, run after the role and permission checks */
+  predicate?: (user: ElizaUser) => boolean;
+}
+
+// ============================================================================
+// Checks
+// ============================================================================
+
+function toList(value: string | string[]): string[] {
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Whether the user has any of the given roles.
+ */
+export function hasRole(
+  user: ElizaUser | null,
+  role: string | string[],
+): boolean {
+  if (!user) return false;
+  const roles = user.roles ?? [];
+  return toList(role).some((r) => roles.includes(r));
+}
+
+/**
+ * Whether the user has all of the given permissions.
+ */
+export function hasPermission(
+  user: ElizaUser | null,
+  permission: string | string[],
+): boolean {
+  if (!user) return false;
+  const permissions = user.permissions ?? [];
+  return toList(permission).every((p) => permissions.includes(p));
+}
+
+/**
+ * Whether the user meets every part of the requirement. Signed-out users
+ * never do; an empty requirement only needs a signed-in user.
+ */
+export function checkAccess(
+  user: ElizaUser | null,
+  requirement: AccessRequirement,
+): boolean {
+  if (!user) return false;
+  const { requireRole, requirePermission, predicate } = requirement;
+  if (requireRole !== undefined && !hasRole(user, requireRole)) return false;
+  if (
+    requirePermission !== undefined &&
+    !hasPermission(user, requirePermission)
+  ) {
+    return false;
+  }
+  return predicate ? predicate(user) : true;
+}
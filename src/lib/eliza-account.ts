@@ -0,0 +1,177 @@
+/**
+ * Eliza Cloud Account
+ *
+ * Profile and session management for the signed-in user: update the
+ * display name and avatar, list and revoke the user's sessions in this
+ * app, and sign out of every device.
+ *
+ * @example
+ * import { updateProfile, listSessions, revokeSession } from '@/lib/eliza-account';
+ *
+ * await updateProfile({ name: "Ada" });
+ *
+ * const sessions = await listSessions();
+ * await revokeSession(sessions.find((s) => !s.current)!.id);
+ */
+
+import type { ElizaAuthApi, ElizaUser } from "./eliza-auth";
+import type { ElizaClientContext } from "./eliza-client";
+import { getDefaultClient } from "./eliza-client";
+import { UnauthorizedError } from "./eliza-errors";
+import { createRequestLayer, type RequestOptions } from "./eliza-request";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ProfileUpdate {
+  /** New display name */
+  name?: string;
+  /** New avatar image URL, or null to remove it */
+  avatar?: string | null;
+}
+
+/** A signed-in device or browser */
+export interface AuthSession {
+  id: string;
+  /** Whether this is the session making the request */
+  current: boolean;
+  createdAt: string;
+  lastActiveAt?: string;
+  userAgent?: string;
+  ipAddress?: string;
+  /** Approximate location, e.g. "Berlin, DE" */
+  location?: string;
+}
+
+// ============================================================================
+// Account API
+// ============================================================================
+
+/**
+ * Create the account functions for one client.
+ */
+export function createAccountApi(ctx: ElizaClientContext, auth: ElizaAuthApi) {
+  const requests = createRequestLayer(ctx, auth);
+
+  function assertSignedIn(action: string): void {
+    if (!auth.isAuthenticated()) {
+      throw new UnauthorizedError(`Must be signed in to ${action}`);
+    }
+  }
+
+  /**
+   * Update the user's display name and/or avatar.
+   * Every `useElizaAuth` (in every tab) picks up the new profile.
+   *
+   * @example
+   * const user = await updateProfile({ name: "Ada", avatar: null });
+   */
+  async function updateProfile(
+    updates: ProfileUpdate,
+    options?: RequestOptions,
+  ): Promise<ElizaUser> {
+    assertSignedIn("update your profile");
+
+    const data = await requests.json<{ user: ElizaUser }>(
+      "/api/v1/app-auth/user",
+      {
+        method: "PATCH",
+        body: updates,
+        errorMessage: "Failed to update profile",
+      },
+      options,
+    );
+    auth.setCachedUser(data.user);
+    return data.user;
+  }
+
+  /**
+   * List the user's active sessions in this app, current one included.
+   */
+  async function listSessions(
+    options?: RequestOptions,
+  ): Promise<AuthSession[]> {
+    assertSignedIn("list sessions");
+
+    const data = await requests.json<{ sessions?: AuthSession[] }>(
+      "/api/v1/app-auth/sessions",
+      { errorMessage: "Failed to fetch sessions" },
+      options,
+    );
+    return data.sessions ?? [];
+  }
+
+  /**
+   * Sign out one session, e.g. a lost phone. To end the current session
+   * use `signOut` instead.
+   */
+  async function revokeSession(
+    sessionId: string,
+    options?: RequestOptions,
+  ): Promise<void> {
+    assertSignedIn("revoke sessions");
+
+    await requests.send(
+      `/api/v1/app-auth/sessions/${encodeURIComponent(sessionId)}`,
+      { method: "DELETE", errorMessage: "Failed to revoke session" },
+      options,
+    );
+  }
+
+  /**
+   * Revoke every session of the user in this app, including this one,
+   * then sign out locally (and in other tabs).
+   */
+  async function signOutEverywhere(options?: RequestOptions): Promise<void> {
+    assertSignedIn("sign out everywhere");
+
+    await requests.send(
+      "/api/v1/app-auth/sessions",
+      { method: "DELETE", errorMessage: "Failed to sign out everywhere" },
+      options,
+    );
+    await auth.signOut();
+  }
+
+  return {
+    updateProfile,
+    listSessions,
+    revokeSession,
+    signOutEverywhere,
+  };
+}
+
+export type ElizaAccountApi = ReturnType<typeof createAccountApi>;
+
+// ============================================================================
+// Default Instance
+// ============================================================================
+
+// Module-level functions run against the default client (see eliza-client.ts).
+
+export const updateProfile: ElizaAccountApi["updateProfile"] = (...args) =>
+  getDefaultClient().account.updateProfile(...args);
+
+export const listSessions: ElizaAccountApi["listSessions"] = (...args) =>
+  getDefaultClient().account.listSessions(...args);
+
+export const revokeSession: ElizaAccountApi["revokeSession"] = (...args) =>
+  getDefaultClient().account.revokeSession(...args);
+
+export const signOutEverywhere: ElizaAccountApi["signOutEverywhere"] = (
+  ...args
+) => getDefaultClient().account.signOutEverywhere(...args);
+
+// ============================================================================
+// Utility Exports
+// ============================================================================
+
+export const elizaAccount = {
+  updateProfile,
+  listSessions,
+  revokeSession,
+  signOutEverywhere,
+};
+
+export default elizaAccount;
@@ -19,9 +19,10 @@
  * signOut();
  */
 
-const apiBase =
-  process.env.NEXT_PUBLIC_ELIZA_API_URL || "https://www.elizacloud.ai";
-const appId = process.env.NEXT_PUBLIC_ELIZA_APP_ID || "";
+import type { ElizaClientContext } from "./eliza-client";
+import { getDefaultClient } from "./eliza-client";
+import { AuthFlowError, createApiError } from "./eliza-errors";
+import { RETURN_TO_PARAM, resolveRedirect } from "./eliza-redirect";
 
 // ============================================================================
 // Types
@@ -33,6 +34,12 @@ export interface ElizaUser {
   name?: string;
   avatar?: string;
   createdAt: string;
+  /** Roles in this app, e.g. "admin" (see eliza-access.ts) */
+  roles?: string[];
+  /** Granted permissions / entitlements, e.g. "projects:write" */
+  permissions?: string[];
+  /** Subscription plan, if the app has plans */
+  plan?: string;
 }
 
 export interface AuthState {
@@ -42,144 +49,511 @@ export interface AuthState {
   error: string | null;
 }
 
+/**
+ * Auth lifecycle events, see `subscribe`.
+ * Events are also broadcast to the app's other open tabs.
+ */
+export type AuthEvent =
+  /** A sign-in completed and a token was stored */
+  | { type: "signed-in" }
+  /** The user signed out */
+  | { type: "signed-out" }
+  /** The server rejected the token and it could not be refreshed */
+  | { type: "session-expired" }
+  /** The session was extended, possibly with a new token */
+  | { type: "token-refreshed" }
+  /** Fresh user data was fetched and cached */
+  | { type: "user-updated"; user: ElizaUser };
+
+const AUTH_EVENT_TYPES = new Set<string>([
+  "signed-in",
+  "signed-out",
+  "session-expired",
+  "token-refreshed",
+  "user-updated",
+]);
+
+export interface AutoRefreshOptions {
+  /**
+   * Refresh interval used when the token's expiry is unknown
+   * (not a JWT and no `expiresAt` from the server).
+   * @default 300000 (5 minutes)
+   */
+  fallbackIntervalMs?: number;
+}
+
 export interface SignInOptions {
-  /** Custom redirect URL after sign in. Defaults to current page. */
+  /**
+   * Custom redirect URL after sign in. Defaults to the current page's
+   * `?redirect=` parameter (set by `createAuthMiddleware`), then to the
+   * current page. Ignored in popup mode, where the page never changes.
+   */
   redirectUrl?: string;
-  /** Optional state to preserve across the auth flow */
-  state?: string;
+  /**
+   * "redirect" leaves the page for the Eliza Cloud login; "popup" opens it
+   * in a popup and keeps the page (and any unsaved input) as it is.
+   * @default "redirect"
+   */
+  mode?: "redirect" | "popup";
 }
 
 // ============================================================================
-// Token Storage
+// Storage Keys
 // ============================================================================
 
-const TOKEN_KEY = "eliza_app_token";
 const USER_CACHE_KEY = "eliza_app_user";
-const USER_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
+export const USER_CACHE_TTL = 5 * 60 * 1000; // 5 minutes
 
 interface CachedUser {
   user: ElizaUser;
   cachedAt: number;
 }
 
-/**
- * Get the stored auth token
- */
-export function getToken(): string | null {
-  if (typeof window === "undefined") return null;
-  return localStorage.getItem(TOKEN_KEY);
+const REDIRECT_KEY = "eliza_auth_redirect";
+const AUTH_FLOW_KEY = "eliza_auth_flow";
+/** A sign-in must complete within this time */
+const AUTH_FLOW_TTL = 10 * 60 * 1000; // 10 minutes
+/** Abandoned flows are kept this long so late callbacks report FLOW_EXPIRED */
+const AUTH_FLOW_RETENTION = 24 * 60 * 60 * 1000;
+
+/** A sign-in started in this browser, stored under its `state` */
+interface PendingAuthFlow {
+  /** PKCE code verifier, null when Web Crypto is unavailable */
+  codeVerifier: string | null;
+  redirectUrl: string;
+  mode: "redirect" | "popup";
+  createdAt: number;
 }
 
-/**
- * Store the auth token
- */
-function setToken(token: string): void {
-  if (typeof window === "undefined") return;
-  localStorage.setItem(TOKEN_KEY, token);
+/** postMessage type the popup uses to hand the callback to its opener */
+const POPUP_MESSAGE_TYPE = "eliza-auth:callback";
+const POPUP_FEATURES = "popup,width=500,height=650";
+/** How often to check whether the user closed the popup */
+const POPUP_POLL_MS = 500;
+
+// ============================================================================
+// State & PKCE
+// ============================================================================
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = "";
+  bytes.forEach((byte) => (binary += String.fromCharCode(byte)));
+  return btoa(binary)
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
 }
 
-/**
- * Clear the auth token
- */
-function clearToken(): void {
-  if (typeof window === "undefined") return;
-  localStorage.removeItem(TOKEN_KEY);
-  localStorage.removeItem(USER_CACHE_KEY);
+/** Unguessable URL-safe string (also a valid PKCE code verifier) */
+function randomToken(bytes = 32): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(bytes)));
 }
 
 /**
- * Get cached user (if still valid)
+ * S256 code challenge for a verifier. Returns null where `crypto.subtle`
+ * is unavailable (plain-HTTP origins other than localhost).
  */
-function getCachedUser(): ElizaUser | null {
-  if (typeof window === "undefined") return null;
+async function createCodeChallenge(verifier: string): Promise<string | null> {
+  if (!crypto.subtle) return null;
+  const digest = await crypto.subtle.digest(
+    "SHA-256",
+    new TextEncoder().encode(verifier),
+  );
+  return base64UrlEncode(new Uint8Array(digest));
+}
 
-  const cached = localStorage.getItem(USER_CACHE_KEY);
-  if (!cached) return null;
+// ============================================================================
+// Token Expiry
+// ============================================================================
+
+/** Refresh this long before the token expires */
+const REFRESH_LEEWAY_MS = 60 * 1000;
+/** Wait this long before trying again after a failed refresh */
+const REFRESH_RETRY_MS = 30 * 1000;
+const DEFAULT_REFRESH_INTERVAL = 5 * 60 * 1000;
+/** setTimeout overflows beyond ~24.8 days */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
 
+/**
+ * Decode the payload of a JWT without verifying it.
+ * Returns null for tokens that aren't JWTs.
+ */
+export function decodeTokenClaims(
+  token: string,
+): Record<string, unknown> | null {
+  const payload = token.split(".")[1];
+  if (!payload) return null;
   try {
-    const parsed: CachedUser = JSON.parse(cached);
-    if (Date.now() - parsed.cachedAt < USER_CACHE_TTL) {
-      return parsed.user;
-    }
-    localStorage.removeItem(USER_CACHE_KEY);
-    return null;
+    const base64 = payload.replace(/-/g, "+").replace(/_/g, "/");
+    const json = decodeURIComponent(
+      Array.from(
+        atob(base64),
+        (c) => "%" + c.charCodeAt(0).toString(16).padStart(2, "0"),
+      ).join(""),
+    );
+    const claims = JSON.parse(json);
+    return claims && typeof claims === "object" ? claims : null;
   } catch {
     return null;
   }
 }
 
 /**
- * Cache the user data
+ * Normalize a server `expiresAt` (ISO string, epoch seconds or epoch ms)
+ * to epoch milliseconds.
  */
-function setCachedUser(user: ElizaUser): void {
-  if (typeof window === "undefined") return;
-  const cached: CachedUser = { user, cachedAt: Date.now() };
-  localStorage.setItem(USER_CACHE_KEY, JSON.stringify(cached));
+export function parseExpiresAt(value: unknown): number | null {
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return value < 1e12 ? value * 1000 : value;
+  }
+  if (typeof value === "string") {
+    const time = Date.parse(value);
+    return Number.isNaN(time) ? null : time;
+  }
+  return null;
 }
 
 // ============================================================================
-// Auth Headers
+// Auth API
 // ============================================================================
 
 /**
- * Get authorization headers for API calls.
- * Include these in requests to authenticate the user.
+ * Create the auth functions for one client.
+ * Token storage, API base and app ID come from the client config.
  */
-export function getAuthHeaders(): Record<string, string> {
-  const token = getToken();
-  const headers: Record<string, string> = {};
+export function createAuthApi(ctx: ElizaClientContext) {
+  const { apiBase, appId, tokenStore } = ctx;
+  // Keep cached users of different apps apart
+  const userCacheKey = appId ? `${USER_CACHE_KEY}:${appId}` : USER_CACHE_KEY;
+  const authFlowPrefix = `${AUTH_FLOW_KEY}:${appId}:`;
+
+  // --------------------------------------------------------------------------
+  // Token Storage
+  // --------------------------------------------------------------------------
 
-  if (token) {
-    headers["Authorization"] = `Bearer ${token}`;
+  /**
+   * Get the stored auth token
+   */
+  function getToken(): string | null {
+    return tokenStore.get();
   }
 
-  if (appId) {
-    headers["X-App-Id"] = appId;
+  /**
+   * Clear the auth token
+   */
+  function clearToken(): void {
+    tokenStore.clear();
+    if (typeof window === "undefined") return;
+    localStorage.removeItem(userCacheKey);
   }
 
-  return headers;
-}
+  /**
+   * Get cached user (if still valid)
+   */
+  function getCachedUser(): ElizaUser | null {
+    if (typeof window === "undefined") return null;
 
-// ============================================================================
-// Core Auth Functions
-// ============================================================================
+    const cached = localStorage.getItem(userCacheKey);
+    if (!cached) return null;
 
-/**
- * Check if the current user is authenticated.
- * This is a synchronous check of the token presence.
- */
-export function isAuthenticated(): boolean {
-  return !!getToken();
-}
+    try {
+      const parsed: CachedUser = JSON.parse(cached);
+      if (Date.now() - parsed.cachedAt < USER_CACHE_TTL) {
+        return parsed.user;
+      }
+      localStorage.removeItem(userCacheKey);
+      return null;
+    } catch {
+      return null;
+    }
+  }
 
-/**
- * Check if app-specific authentication is available.
- * Returns false when running standalone without NEXT_PUBLIC_ELIZA_APP_ID.
- */
-export function isAppAuthAvailable(): boolean {
-  return !!appId;
-}
+  /**
+   * How long ago (ms) the cached user was stored, or null if there is none.
+   * The cache is used until it is `USER_CACHE_TTL` old.
+   */
+  function getUserCacheAge(): number | null {
+    if (typeof window === "undefined") return null;
 
-/**
- * Initiate sign in with Eliza Cloud.
- * Redirects user to Eliza Cloud login page, then back to your app.
- *
- * NOTE: Requires NEXT_PUBLIC_ELIZA_APP_ID to be set.
- * When running standalone, create an app at elizacloud.ai/dashboard/apps first.
- *
- * @example
- * // Simple sign in
- * signIn();
- *
- * // With custom redirect
- * signIn({ redirectUrl: '/dashboard' });
- */
-export function signIn(options?: SignInOptions): void {
-  if (typeof window === "undefined") return;
+    const cached = localStorage.getItem(userCacheKey);
+    if (!cached) return null;
+
+    try {
+      const parsed: CachedUser = JSON.parse(cached);
+      return Date.now() - parsed.cachedAt;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Cache the user data and tell subscribers (in every tab) about it.
+   * Call after changing the user server-side, e.g. a profile update.
+   */
+  function setCachedUser(user: ElizaUser): void {
+    if (typeof window === "undefined") return;
+    const cached: CachedUser = { user, cachedAt: Date.now() };
+    localStorage.setItem(userCacheKey, JSON.stringify(cached));
+    notify({ type: "user-updated", user });
+  }
+
+  // Expiry reported by the server, for the token it was reported with
+  let serverExpiry: { token: string; expiresAt: number } | null = null;
+
+  /**
+   * When the current token expires (epoch ms), from the server's
+   * `expiresAt` or the JWT `exp` claim. Null if unknown.
+   */
+  function getTokenExpiry(): number | null {
+    const token = getToken();
+    if (!token) return null;
+    if (serverExpiry?.token === token) return serverExpiry.expiresAt;
+    const exp = decodeTokenClaims(token)?.exp;
+    return typeof exp === "number" ? exp * 1000 : null;
+  }
+
+  function rememberExpiry(token: string, expiresAt: unknown): void {
+    const time = parseExpiresAt(expiresAt);
+    if (time !== null) serverExpiry = { token, expiresAt: time };
+  }
+
+  // --------------------------------------------------------------------------
+  // Events
+  // --------------------------------------------------------------------------
+
+  const listeners = new Set<(event: AuthEvent) => void>();
+
+  /**
+   * Listen for auth events. Returns a function that stops listening.
+   *
+   * @example
+   * const stop = subscribe((event) => {
+   *   if (event.type === "session-expired") showSignInPrompt();
+   * });
+   */
+  function subscribe(listener: (event: AuthEvent) => void): () => void {
+    connect();
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }
 
-  // Validate appId is configured
-  if (!appId) {
-    const errorMessage = `
+  function emit(event: AuthEvent): void {
+    listeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Emit an event in this tab and broadcast it to the others.
+   */
+  function notify(event: AuthEvent): void {
+    emit(event);
+    broadcast(event);
+  }
+
+  /**
+   * Drop a token the server no longer accepts and broadcast
+   * "session-expired". Does nothing if there is no token, so concurrent
+   * failures only broadcast once.
+   */
+  function expireSession(): void {
+    if (!getToken()) return;
+    clearToken();
+    void syncSessionCookie(null);
+    scheduleRefresh();
+    notify({ type: "session-expired" });
+  }
+
+  // --------------------------------------------------------------------------
+  // Cross-Tab Sync
+  // --------------------------------------------------------------------------
+
+  // BroadcastChannel where available, otherwise `storage` events
+  const channelName = `eliza-auth:${appId || "default"}`;
+  let channel: BroadcastChannel | null | undefined;
+
+  function connect(): void {
+    if (channel !== undefined || typeof window === "undefined") return;
+
+    if (typeof BroadcastChannel === "undefined") {
+      channel = null;
+      window.addEventListener("storage", (e) => {
+        if (e.key !== channelName || !e.newValue) return;
+        try {
+          receive(JSON.parse(e.newValue).event);
+        } catch {
+          // Ignore malformed messages
+        }
+      });
+      return;
+    }
+
+    channel = new BroadcastChannel(channelName);
+    channel.onmessage = (e) => receive(e.data);
+  }
+
+  function broadcast(event: AuthEvent): void {
+    connect();
+    if (channel) {
+      channel.postMessage(event);
+    } else if (channel === null) {
+      // A storage event only fires on change, so make every message unique
+      localStorage.setItem(
+        channelName,
+        JSON.stringify({ event, sentAt: Date.now(), nonce: Math.random() }),
+      );
+      localStorage.removeItem(channelName);
+    }
+  }
+
+  /**
+   * Apply an event from another tab, then pass it on to this tab's
+   * subscribers.
+   */
+  function receive(event: unknown): void {
+    if (
+      !event ||
+      typeof event !== "object" ||
+      !AUTH_EVENT_TYPES.has((event as AuthEvent).type)
+    ) {
+      return;
+    }
+    const authEvent = event as AuthEvent;
+
+    // Token stores that aren't shared between tabs still sign out together
+    if (
+      (authEvent.type === "signed-out" ||
+        authEvent.type === "session-expired") &&
+      getToken()
+    ) {
+      clearToken();
+    }
+
+    // The token or its expiry may have changed
+    scheduleRefresh();
+    emit(authEvent);
+  }
+
+  // --------------------------------------------------------------------------
+  // Session Cookie
+  // --------------------------------------------------------------------------
+
+  /**
+   * Mirror the token into the httpOnly session cookie kept by the app's
+   * `sessionEndpoint` route, or clear it (null). Best-effort: client-side
+   * auth keeps working if the route fails.
+   */
+  async function syncSessionCookie(token: string | null): Promise<void> {
+    if (!ctx.sessionEndpoint || typeof window === "undefined") return;
+    try {
+      const res = await ctx.fetch(
+        ctx.sessionEndpoint,
+        token
+          ? {
+              method: "POST",
+              headers: { "Content-Type": "application/json" },
+              body: JSON.stringify({ token }),
+              credentials: "same-origin",
+            }
+          : { method: "DELETE", credentials: "same-origin" },
+      );
+      if (!res.ok) {
+        console.warn(
+          `[Eliza Auth] Session cookie update failed (${res.status})`,
+        );
+      }
+    } catch (e) {
+      console.warn("[Eliza Auth] Session cookie update failed", e);
+    }
+  }
+
+  // --------------------------------------------------------------------------
+  // Auth Headers
+  // --------------------------------------------------------------------------
+
+  /**
+   * Get authorization headers for API calls.
+   * Include these in requests to authenticate the user.
+   */
+  function getAuthHeaders(): Record<string, string> {
+    const token = getToken();
+    const headers: Record<string, string> = {};
+
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+
+    if (appId) {
+      headers["X-App-Id"] = appId;
+    }
+
+    return headers;
+  }
+
+  // --------------------------------------------------------------------------
+  // Core Auth Functions
+  // --------------------------------------------------------------------------
+
+  /**
+   * Check if the current user is authenticated.
+   * This is a synchronous check of the token presence.
+   */
+  function isAuthenticated(): boolean {
+    return !!getToken();
+  }
+
+  /**
+   * Check if app-specific authentication is available.
+   * Returns false when running standalone without an app ID.
+   */
+  function isAppAuthAvailable(): boolean {
+    return !!appId;
+  }
+
+  /**
+   * The page a signed-out visitor was sent away from, if the redirect
+   * policy allows it, otherwise the current page.
+   */
+  function getReturnTo(): string {
+    const returnTo = new URLSearchParams(window.location.search).get(
+      RETURN_TO_PARAM,
+    );
+    return returnTo
+      ? resolveRedirect(returnTo, ctx.allowedRedirectOrigins)
+      : window.location.href;
+  }
+
+  /**
+   * Initiate sign in with Eliza Cloud.
+   * Redirects user to Eliza Cloud login page, then back to your app.
+   *
+   * Every sign-in gets a random `state` and a PKCE code challenge, kept in
+   * localStorage until `handleCallback` verifies them.
+   *
+   * In popup mode the login opens in a popup and the returned promise
+   * resolves with the user once it completes. It rejects with an
+   * `AuthFlowError` if the popup is blocked (`POPUP_BLOCKED`) or closed
+   * early (`POPUP_CLOSED`).
+   *
+   * NOTE: Requires an app ID (NEXT_PUBLIC_ELIZA_APP_ID by default).
+   * When running standalone, create an app at elizacloud.ai/dashboard/apps first.
+   *
+   * @example
+   * // Simple sign in
+   * signIn();
+   *
+   * // With custom redirect
+   * signIn({ redirectUrl: '/dashboard' });
+   *
+   * // Without leaving the page
+   * const user = await signIn({ mode: 'popup' });
+   */
+  async function signIn(options?: SignInOptions): Promise<ElizaUser | null> {
+    if (typeof window === "undefined") return null;
+
+    // Validate appId is configured
+    if (!appId) {
+      const errorMessage = `
 [Eliza Auth] NEXT_PUBLIC_ELIZA_APP_ID is not configured.
 
 To enable user authentication in your app:
@@ -191,194 +565,585 @@ To enable user authentication in your app:
    NEXT_PUBLIC_ELIZA_APP_ID=your-app-id-here
 `.trim();
 
-    console.error(errorMessage);
-    throw new Error(
-      "App ID not configured. Set NEXT_PUBLIC_ELIZA_APP_ID in your environment. See console for details.",
-    );
-  }
+      console.error(errorMessage);
+      throw new Error(
+        "App ID not configured. Set NEXT_PUBLIC_ELIZA_APP_ID in your environment. See console for details.",
+      );
+    }
+
+    const mode = options?.mode ?? "redirect";
+
+    // Open the popup before any await, or it no longer counts as a click
+    let popup: Window | null = null;
+    if (mode === "popup") {
+      popup = window.open("", `eliza-auth-${appId}`, POPUP_FEATURES);
+      if (!popup) throw new AuthFlowError("POPUP_BLOCKED");
+    }
 
-  const redirectUrl = options?.redirectUrl || window.location.href;
-  const callbackUrl = new URL(
-    "/auth/callback",
-    window.location.origin,
-  ).toString();
+    const state = randomToken();
+    let loginUrl: string;
+    try {
+      loginUrl = await startAuthFlow(state, {
+        codeVerifier: null,
+        redirectUrl: options?.redirectUrl || getReturnTo(),
+        mode,
+        createdAt: Date.now(),
+      });
+    } catch (e) {
+      popup?.close();
+      throw e;
+    }
 
-  // Store the intended redirect for after callback
-  sessionStorage.setItem("eliza_auth_redirect", redirectUrl);
+    if (!popup) {
+      window.location.href = loginUrl;
+      return null;
+    }
+
+    popup.location.href = loginUrl;
+    return waitForPopup(popup, state);
+  }
 
-  const loginUrl = new URL(`${apiBase}/app-auth/authorize`);
-  loginUrl.searchParams.set("app_id", appId);
-  loginUrl.searchParams.set("redirect_uri", callbackUrl);
+  /**
+   * Sign out the current user.
+   * Clears local tokens, notifies the server (best-effort) and signs out
+   * every open tab.
+   */
+  async function signOut(): Promise<void> {
+    const token = getToken();
 
-  if (options?.state) {
-    loginUrl.searchParams.set("state", options.state);
+    // Notify server (best-effort)
+    if (token) {
+      try {
+        await ctx.fetch(`${apiBase}/api/v1/app-auth/logout`, {
+          method: "POST",
+          headers: {
+            Authorization: `Bearer ${token}`,
+            "X-App-Id": appId,
+          },
+        });
+      } catch {
+        // Ignore server errors - still clear local state
+      }
+    }
+
+    clearToken();
+    await syncSessionCookie(null);
+    scheduleRefresh();
+    notify({ type: "signed-out" });
   }
 
-  window.location.href = loginUrl.toString();
-}
+  /**
+   * Get the current authenticated user.
+   * Returns null if not authenticated or session is invalid.
+   *
+   * @example
+   * const user = await getUser();
+   * if (user) {
+   *   console.log(`Hello, ${user.name}!`);
+   * }
+   */
+  async function getUser(): Promise<ElizaUser | null> {
+    const token = getToken();
+    if (!token) return null;
 
-/**
- * Sign out the current user.
- * Clears local tokens and optionally notifies the server.
- */
-export async function signOut(): Promise<void> {
-  const token = getToken();
+    // Check cache first
+    const cached = getCachedUser();
+    if (cached) return cached;
 
-  // Notify server (best-effort)
-  if (token) {
     try {
-      await fetch(`${apiBase}/api/v1/app-auth/logout`, {
-        method: "POST",
+      const res = await ctx.fetch(`${apiBase}/api/v1/app-auth/session`, {
         headers: {
           Authorization: `Bearer ${token}`,
           "X-App-Id": appId,
         },
       });
+
+      if (!res.ok) {
+        // Token is invalid - clear it
+        if (res.status === 401) {
+          expireSession();
+        }
+        return null;
+      }
+
+      const data = await res.json();
+      rememberExpiry(token, data.expiresAt);
+      if (data.user) {
+        setCachedUser(data.user);
+        return data.user;
+      }
+      return null;
     } catch {
-      // Ignore server errors - still clear local state
+      return null;
     }
   }
 
-  clearToken();
+  // --------------------------------------------------------------------------
+  // Sign-In Flows
+  // --------------------------------------------------------------------------
 
-  // Reload to clear any cached state
-  if (typeof window !== "undefined") {
-    window.location.reload();
+  function getCallbackUrl(): string {
+    return new URL("/auth/callback", window.location.origin).toString();
   }
-}
 
-/**
- * Get the current authenticated user.
- * Returns null if not authenticated or session is invalid.
- *
- * @example
- * const user = await getUser();
- * if (user) {
- *   console.log(`Hello, ${user.name}!`);
- * }
- */
-export async function getUser(): Promise<ElizaUser | null> {
-  const token = getToken();
-  if (!token) return null;
+  /**
+   * Store a new flow under `state`, with a fresh PKCE verifier, and build
+   * the authorize URL for it.
+   */
+  async function startAuthFlow(
+    state: string,
+    flow: PendingAuthFlow,
+  ): Promise<string> {
+    const codeVerifier = randomToken();
+    const codeChallenge = await createCodeChallenge(codeVerifier);
 
-  // Check cache first
-  const cached = getCachedUser();
-  if (cached) return cached;
+    pruneAuthFlows();
+    localStorage.setItem(
+      authFlowPrefix + state,
+      JSON.stringify({
+        ...flow,
+        codeVerifier: codeChallenge ? codeVerifier : null,
+      }),
+    );
 
-  try {
-    const res = await fetch(`${apiBase}/api/v1/app-auth/session`, {
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "X-App-Id": appId,
-      },
+    const loginUrl = new URL(`${apiBase}/app-auth/authorize`);
+    loginUrl.searchParams.set("app_id", appId);
+    loginUrl.searchParams.set("redirect_uri", getCallbackUrl());
+    loginUrl.searchParams.set("state", state);
+    if (codeChallenge) {
+      loginUrl.searchParams.set("code_challenge", codeChallenge);
+      loginUrl.searchParams.set("code_challenge_method", "S256");
+    }
+    return loginUrl.toString();
+  }
+
+  function peekAuthFlow(state: string): PendingAuthFlow | null {
+    try {
+      return JSON.parse(localStorage.getItem(authFlowPrefix + state) ?? "null");
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read and forget the flow started with `state`. Each flow can complete
+   * once, so a replayed callback URL is rejected.
+   */
+  function takeAuthFlow(state: string): PendingAuthFlow | null {
+    const key = authFlowPrefix + state;
+    const stored = localStorage.getItem(key);
+    localStorage.removeItem(key);
+    if (!stored) return null;
+    try {
+      return JSON.parse(stored);
+    } catch {
+      return null;
+    }
+  }
+
+  /** Drop flows that were started long ago and never completed */
+  function pruneAuthFlows(): void {
+    for (let i = localStorage.length - 1; i >= 0; i--) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(authFlowPrefix)) continue;
+      try {
+        const flow: PendingAuthFlow = JSON.parse(localStorage.getItem(key)!);
+        if (Date.now() - flow.createdAt < AUTH_FLOW_RETENTION) continue;
+      } catch {
+        // Malformed - remove it
+      }
+      localStorage.removeItem(key);
+    }
+  }
+
+  /**
+   * Exchange an authorization code for a token, proving with the PKCE
+   * verifier that this browser started the flow.
+   */
+  async function exchangeCode(
+    code: string,
+    flow: PendingAuthFlow,
+  ): Promise<string> {
+    const res = await ctx.fetch(`${apiBase}/api/v1/app-auth/token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "X-App-Id": appId },
+      body: JSON.stringify({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: getCallbackUrl(),
+        ...(flow.codeVerifier && { code_verifier: flow.codeVerifier }),
+      }),
     });
 
     if (!res.ok) {
-      // Token is invalid - clear it
-      if (res.status === 401) {
-        clearToken();
-      }
-      return null;
+      const error = await createApiError(res, "Failed to complete sign in");
+      throw new AuthFlowError("PROVIDER_ERROR", error.message, {
+        cause: error,
+      });
     }
 
     const data = await res.json();
-    if (data.user) {
-      setCachedUser(data.user);
-      return data.user;
+    if (typeof data.token !== "string" || !data.token) {
+      throw new AuthFlowError("MISSING_TOKEN");
     }
-    return null;
-  } catch {
-    return null;
+    rememberExpiry(data.token, data.expiresAt);
+    return data.token;
   }
-}
 
-/**
- * Handle the OAuth callback.
- * Call this on your /auth/callback page to complete sign-in.
- *
- * @example
- * // In app/auth/callback/page.tsx
- * useEffect(() => {
- *   handleCallback()
- *     .then(user => {
- *       if (user) router.push('/dashboard');
- *     })
- *     .catch(console.error);
- * }, []);
- */
-export async function handleCallback(): Promise<ElizaUser | null> {
-  if (typeof window === "undefined") return null;
+  /**
+   * Verify callback parameters against the stored flow, then store the
+   * token and fetch the user.
+   */
+  async function completeSignIn(
+    params: URLSearchParams,
+  ): Promise<{ user: ElizaUser | null; flow: PendingAuthFlow }> {
+    const state = params.get("state");
+    const code = params.get("code");
+    const error = params.get("error");
+    const errorDescription = params.get("error_description");
 
-  const params = new URLSearchParams(window.location.search);
-  const token = params.get("token");
-  const error = params.get("error");
-  const errorDescription = params.get("error_description");
+    const flow = state ? takeAuthFlow(state) : null;
 
-  if (error) {
-    throw new Error(errorDescription || error);
-  }
+    if (error) {
+      throw new AuthFlowError("PROVIDER_ERROR", errorDescription || error);
+    }
+
+    if (!flow) {
+      throw new AuthFlowError("STATE_MISMATCH");
+    }
+
+    if (Date.now() - flow.createdAt > AUTH_FLOW_TTL) {
+      throw new AuthFlowError("FLOW_EXPIRED");
+    }
+
+    const token =
+      params.get("token") || (code ? await exchangeCode(code, flow) : null);
+
+    if (!token) {
+      throw new AuthFlowError("MISSING_TOKEN");
+    }
+
+    tokenStore.set(token);
+    await syncSessionCookie(token);
+    scheduleRefresh();
+    notify({ type: "signed-in" });
 
-  if (!token) {
-    throw new Error("No authentication token received");
+    return { user: await getUser(), flow };
   }
 
-  // Store the token
-  setToken(token);
+  /**
+   * Wait for the popup opened by `signIn` to hand back its callback.
+   * Only messages from that popup window on this origin are accepted.
+   */
+  function waitForPopup(
+    popup: Window,
+    state: string,
+  ): Promise<ElizaUser | null> {
+    return new Promise((resolve, reject) => {
+      const startedAt = Date.now();
 
-  // Clear URL parameters
-  const cleanUrl = window.location.pathname;
-  window.history.replaceState({}, "", cleanUrl);
+      const cleanup = () => {
+        window.removeEventListener("message", onMessage);
+        clearInterval(poll);
+      };
 
-  // Get and return user info
-  return getUser();
-}
+      function onMessage(event: MessageEvent) {
+        if (event.origin !== window.location.origin) return;
+        if (event.source !== popup) return;
+        const data = event.data;
+        if (data?.type !== POPUP_MESSAGE_TYPE) return;
+        if (typeof data.search !== "string") return;
 
-/**
- * Get the stored redirect URL after auth callback.
- * Used by the callback page to redirect users.
- */
-export function getPostAuthRedirect(): string {
-  if (typeof window === "undefined") return "/";
-  const redirect = sessionStorage.getItem("eliza_auth_redirect");
-  sessionStorage.removeItem("eliza_auth_redirect");
-  return redirect || "/";
-}
+        const params = new URLSearchParams(data.search);
+        // A later signIn() may have reused this popup for its own flow
+        if (params.get("state") !== state) return;
 
-/**
- * Refresh the auth session.
- * Call this periodically to keep the session alive.
- */
-export async function refreshSession(): Promise<boolean> {
-  const token = getToken();
-  if (!token) return false;
+        cleanup();
+        popup.close();
+        completeSignIn(params).then(({ user }) => resolve(user), reject);
+      }
 
-  try {
-    const res = await fetch(`${apiBase}/api/v1/app-auth/refresh`, {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${token}`,
-        "X-App-Id": appId,
-      },
+      const poll = setInterval(() => {
+        const code = popup.closed
+          ? "POPUP_CLOSED"
+          : Date.now() - startedAt > AUTH_FLOW_TTL
+            ? "FLOW_EXPIRED"
+            : null;
+        if (!code) return;
+        cleanup();
+        popup.close();
+        takeAuthFlow(state);
+        reject(new AuthFlowError(code));
+      }, POPUP_POLL_MS);
+
+      window.addEventListener("message", onMessage);
     });
+  }
 
-    if (!res.ok) {
-      if (res.status === 401) {
-        clearToken();
+  /**
+   * Whether this page is the popup of a popup-mode sign-in. The callback
+   * page then only hands the result to the opening tab (`handleCallback`).
+   */
+  function isSignInPopup(): boolean {
+    if (typeof window === "undefined") return false;
+    if (!window.opener || window.opener === window) return false;
+    const state = new URLSearchParams(window.location.search).get("state");
+    return !!state && peekAuthFlow(state)?.mode === "popup";
+  }
+
+  /**
+   * Handle the OAuth callback.
+   * Call this on your /auth/callback page to complete sign-in.
+   *
+   * The callback's `state` must match a sign-in started in this browser
+   * within the last 10 minutes. Otherwise nothing is stored and an
+   * `AuthFlowError` is thrown (`STATE_MISMATCH`, `FLOW_EXPIRED`,
+   * `MISSING_TOKEN` or `PROVIDER_ERROR`).
+   *
+   * In a sign-in popup the callback is posted to the opening tab, which
+   * completes the sign-in and closes the popup; this resolves to null.
+   *
+   * @example
+   * // In app/auth/callback/page.tsx
+   * useEffect(() => {
+   *   handleCallback()
+   *     .then(user => {
+   *       if (user) router.push('/dashboard');
+   *     })
+   *     .catch(console.error);
+   * }, []);
+   */
+  async function handleCallback(): Promise<ElizaUser | null> {
+    if (typeof window === "undefined") return null;
+
+    const search = window.location.search;
+    const popup = isSignInPopup();
+
+    // Clear URL parameters so the token doesn't linger in history
+    const cleanUrl = window.location.pathname;
+    window.history.replaceState({}, "", cleanUrl);
+
+    if (popup) {
+      // Only a same-origin opener receives the message
+      window.opener.postMessage(
+        { type: POPUP_MESSAGE_TYPE, search },
+        window.location.origin,
+      );
+      return null;
+    }
+
+    const { user, flow } = await completeSignIn(new URLSearchParams(search));
+
+    // Remember the intended redirect for getPostAuthRedirect
+    sessionStorage.setItem(REDIRECT_KEY, flow.redirectUrl);
+
+    return user;
+  }
+
+  /**
+   * Get the stored redirect URL after auth callback.
+   * Used by the callback page to redirect users. Targets outside the
+   * redirect policy (see eliza-redirect.ts) fall back to "/".
+   */
+  function getPostAuthRedirect(): string {
+    if (typeof window === "undefined") return "/";
+    const redirect = sessionStorage.getItem(REDIRECT_KEY);
+    sessionStorage.removeItem(REDIRECT_KEY);
+    return resolveRedirect(redirect, ctx.allowedRedirectOrigins);
+  }
+
+  let refreshInFlight: Promise<boolean> | null = null;
+
+  /**
+   * Refresh the auth session.
+   * Concurrent calls share a single request. Usually called for you by
+   * `startAutoRefresh` and when an SDK call gets a 401.
+   */
+  function refreshSession(): Promise<boolean> {
+    if (!refreshInFlight) {
+      refreshInFlight = requestRefresh().finally(() => {
+        refreshInFlight = null;
+      });
+    }
+    return refreshInFlight;
+  }
+
+  async function requestRefresh(): Promise<boolean> {
+    const token = getToken();
+    if (!token) return false;
+
+    try {
+      const res = await ctx.fetch(`${apiBase}/api/v1/app-auth/refresh`, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${token}`,
+          "X-App-Id": appId,
+        },
+      });
+
+      if (!res.ok) {
+        if (res.status === 401) {
+          expireSession();
+        }
+        return false;
       }
+
+      const data = await res.json();
+      if (data.token) {
+        tokenStore.set(data.token);
+        await syncSessionCookie(data.token);
+      }
+      rememberExpiry(data.token || token, data.expiresAt);
+
+      notify({ type: "token-refreshed" });
+      return true;
+    } catch {
       return false;
     }
+  }
 
-    const data = await res.json();
-    if (data.token) {
-      setToken(data.token);
+  // --------------------------------------------------------------------------
+  // Refresh Scheduling
+  // --------------------------------------------------------------------------
+
+  // One timer per client, shared by every caller of startAutoRefresh
+  const refreshIntervals = new Map<symbol, number>();
+  let refreshTimer: ReturnType<typeof setTimeout> | undefined;
+
+  function scheduleRefresh(minDelayMs = 0): void {
+    clearTimeout(refreshTimer);
+    refreshTimer = undefined;
+    if (refreshIntervals.size === 0 || !getToken()) return;
+    // Paused while hidden; visibilitychange reschedules
+    if (document.visibilityState === "hidden") return;
+
+    const expiresAt = getTokenExpiry();
+    const delay =
+      expiresAt !== null
+        ? expiresAt - REFRESH_LEEWAY_MS - Date.now()
+        : Math.min(...refreshIntervals.values());
+
+    refreshTimer = setTimeout(
+      async () => {
+        const refreshed = await refreshSession();
+        scheduleRefresh(refreshed ? 0 : REFRESH_RETRY_MS);
+      },
+      Math.min(Math.max(delay, minDelayMs, 0), MAX_TIMER_DELAY),
+    );
+  }
+
+  function onVisibilityChange(): void {
+    scheduleRefresh();
+  }
+
+  /**
+   * Keep the session alive: refresh shortly before the token expires
+   * (or on a fixed interval if the expiry is unknown), paused while the
+   * tab is hidden. Any number of callers share one timer.
+   * Returns a function that stops this caller's refreshes.
+   */
+  function startAutoRefresh(options?: AutoRefreshOptions): () => void {
+    const interval = options?.fallbackIntervalMs ?? DEFAULT_REFRESH_INTERVAL;
+    if (typeof window === "undefined" || interval <= 0) return () => {};
+
+    const key = Symbol("auto-refresh");
+    if (refreshIntervals.size === 0) {
+      document.addEventListener("visibilitychange", onVisibilityChange);
     }
+    refreshIntervals.set(key, interval);
+    scheduleRefresh();
 
-    return true;
-  } catch {
-    return false;
+    return () => {
+      if (!refreshIntervals.delete(key)) return;
+      if (refreshIntervals.size === 0) {
+        document.removeEventListener("visibilitychange", onVisibilityChange);
+      }
+      scheduleRefresh();
+    };
   }
+
+  return {
+    signIn,
+    signOut,
+    getUser,
+    isAuthenticated,
+    isAppAuthAvailable,
+    handleCallback,
+    isSignInPopup,
+    getPostAuthRedirect,
+    refreshSession,
+    getToken,
+    getAuthHeaders,
+    subscribe,
+    expireSession,
+    getTokenExpiry,
+    startAutoRefresh,
+    setCachedUser,
+    getUserCacheAge,
+  };
 }
 
+export type ElizaAuthApi = ReturnType<typeof createAuthApi>;
+
+// ============================================================================
+// Default Instance
+// ============================================================================
+
+// Module-level functions run against the default client (see eliza-client.ts).
+
+export const signIn: ElizaAuthApi["signIn"] = (...args) =>
+  getDefaultClient().auth.signIn(...args);
+
+export const signOut: ElizaAuthApi["signOut"] = (...args) =>
+  getDefaultClient().auth.signOut(...args);
+
+export const getUser: ElizaAuthApi["getUser"] = (...args) =>
+  getDefaultClient().auth.getUser(...args);
+
+export const isAuthenticated: ElizaAuthApi["isAuthenticated"] = (...args) =>
+  getDefaultClient().auth.isAuthenticated(...args);
+
+export const isAppAuthAvailable: ElizaAuthApi["isAppAuthAvailable"] = (
+  ...args
+) => getDefaultClient().auth.isAppAuthAvailable(...args);
+
+export const handleCallback: ElizaAuthApi["handleCallback"] = (...args) =>
+  getDefaultClient().auth.handleCallback(...args);
+
+export const isSignInPopup: ElizaAuthApi["isSignInPopup"] = (...args) =>
+  getDefaultClient().auth.isSignInPopup(...args);
+
+export const getPostAuthRedirect: ElizaAuthApi["getPostAuthRedirect"] = (
+  ...args
+) => getDefaultClient().auth.getPostAuthRedirect(...args);
+
+export const refreshSession: ElizaAuthApi["refreshSession"] = (...args) =>
+  getDefaultClient().auth.refreshSession(...args);
+
+export const getToken: ElizaAuthApi["getToken"] = (...args) =>
+  getDefaultClient().auth.getToken(...args);
+
+export const getAuthHeaders: ElizaAuthApi["getAuthHeaders"] = (...args) =>
+  getDefaultClient().auth.getAuthHeaders(...args);
+
+export const subscribe: ElizaAuthApi["subscribe"] = (...args) =>
+  getDefaultClient().auth.subscribe(...args);
+
+export const expireSession: ElizaAuthApi["expireSession"] = (...args) =>
+  getDefaultClient().auth.expireSession(...args);
+
+export const getTokenExpiry: ElizaAuthApi["getTokenExpiry"] = (...args) =>
+  getDefaultClient().auth.getTokenExpiry(...args);
+
+export const startAutoRefresh: ElizaAuthApi["startAutoRefresh"] = (...args) =>
+  getDefaultClient().auth.startAutoRefresh(...args);
+
+export const setCachedUser: ElizaAuthApi["setCachedUser"] = (...args) =>
+  getDefaultClient().auth.setCachedUser(...args);
+
+export const getUserCacheAge: ElizaAuthApi["getUserCacheAge"] = (...args) =>
+  getDefaultClient().auth.getUserCacheAge(...args);
+
 // ============================================================================
 // Utility Exports
 // ============================================================================
@@ -390,10 +1155,17 @@ export const elizaAuth = {
   isAuthenticated,
   isAppAuthAvailable,
   handleCallback,
+  isSignInPopup,
   getPostAuthRedirect,
   refreshSession,
   getToken,
   getAuthHeaders,
+  subscribe,
+  expireSession,
+  getTokenExpiry,
+  startAutoRefresh,
+  setCachedUser,
+  getUserCacheAge,
 };
 
 export default elizaAuth;
@@ -0,0 +1,182 @@
+/**
+ * Eliza Cloud Client
+ *
+ * A configured instance of the SDK. Each client has its own API base,
+ * app ID, fetch implementation, token storage and credits mode, so
+ * several apps (or a test stub server) can be used side by side.
+ *
+ * The module-level functions in `eliza`, `eliza-auth` and `eliza-credits`
+ * use a default client configured from environment variables.
+ *
+ * @example
+ * const client = createElizaClient({
+ *   apiBase: "http://localhost:4000",
+ *   appId: "test-app",
+ *   tokenStore: createLocalStorageTokenStore("eliza_app_token:test"),
+ * });
+ *
+ * await client.chat([{ role: "user", content: "Hi" }]);
+ * await client.auth.getUser();
+ * await client.credits.getAppCredits();
+ *
+ * // Plug in cross-cutting concerns (see eliza-middleware.ts)
+ * const stop = client.use({ onRequest: (req) => console.log(req.url) });
+ */
+
+import { createElizaApi, type ElizaApi } from "./eliza";
+import { createAccountApi, type ElizaAccountApi } from "./eliza-account";
+import { createAuthApi, type ElizaAuthApi } from "./eliza-auth";
+import { createCreditsApi, type ElizaCreditsApi } from "./eliza-credits";
+import {
+  createMiddlewarePipeline,
+  type ElizaMiddleware,
+} from "./eliza-middleware";
+import { createPricingApi, type ElizaPricingApi } from "./eliza-pricing";
+import { normalizeOrigins, parseOriginList } from "./eliza-redirect";
+import {
+  createLocalStorageTokenStore,
+  type TokenStore,
+} from "./eliza-token-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type CreditsMode = "org" | "app";
+
+export interface ElizaClientConfig {
+  /** Eliza Cloud base URL. Defaults to NEXT_PUBLIC_ELIZA_API_URL. */
+  apiBase?: string;
+  /** App ID sent with every request. Defaults to NEXT_PUBLIC_ELIZA_APP_ID. */
+  appId?: string;
+  /** fetch implementation. Defaults to the global fetch. */
+  fetch?: typeof fetch;
+  /** Where the auth token is kept. Defaults to localStorage. */
+  tokenStore?: TokenStore;
+  /**
+   * Bill organization credits ("org") or app-specific credits ("app").
+   * Defaults to "app" when NEXT_PUBLIC_USE_APP_CREDITS is "true".
+   */
+  creditsMode?: CreditsMode;
+  /** Interceptors every request flows through, in order */
+  middleware?: ElizaMiddleware[];
+  /**
+   * Origins besides the app's own that post-sign-in and checkout redirects
+   * may go to. Defaults to the comma-separated
+   * NEXT_PUBLIC_ELIZA_REDIRECT_ORIGINS.
+   */
+  allowedRedirectOrigins?: string[];
+  /**
+   * App route that mirrors the token into an httpOnly session cookie for
+   * server code (see src/app/api/auth/session/route.ts), e.g.
+   * "/api/auth/session". Defaults to NEXT_PUBLIC_ELIZA_SESSION_ENDPOINT;
+   * unset disables the cookie. The token stays in `tokenStore` as well,
+   * so this adds server-side auth; it doesn't hide the token from JS.
+   */
+  sessionEndpoint?: string | null;
+}
+
+/** Fully resolved client configuration */
+export interface ElizaClientContext {
+  readonly apiBase: string;
+  readonly appId: string;
+  /** fetch with the client's middleware applied */
+  readonly fetch: typeof fetch;
+  readonly tokenStore: TokenStore;
+  readonly creditsMode: CreditsMode;
+  /** Extra redirect origins, normalized (see eliza-redirect.ts) */
+  readonly allowedRedirectOrigins: readonly string[];
+  readonly sessionEndpoint: string | null;
+}
+
+export interface ElizaClient extends ElizaApi {
+  /** Sign-in, session and token functions */
+  auth: ElizaAuthApi;
+  /** Credit balance, checkout and history functions */
+  credits: ElizaCreditsApi;
+  /** Profile and session management functions */
+  account: ElizaAccountApi;
+  /** Price table and cost estimates */
+  pricing: ElizaPricingApi;
+  /** The configuration this client was created with */
+  config: ElizaClientContext;
+  /** Add middleware to this client. Returns a function that removes it. */
+  use: (middleware: ElizaMiddleware) => () => void;
+}
+
+// ============================================================================
+// Factory
+// ============================================================================
+
+function resolveConfig(
+  config: ElizaClientConfig,
+  fetchImpl: typeof fetch,
+): ElizaClientContext {
+  return {
+    apiBase: (
+      config.apiBase ??
+      (process.env.NEXT_PUBLIC_ELIZA_API_URL || "https://www.elizacloud.ai")
+    ).replace(/\/+$/, ""),
+    appId: config.appId ?? (process.env.NEXT_PUBLIC_ELIZA_APP_ID || ""),
+    fetch: fetchImpl,
+    tokenStore: config.tokenStore ?? createLocalStorageTokenStore(),
+    creditsMode:
+      config.creditsMode ??
+      (process.env.NEXT_PUBLIC_USE_APP_CREDITS === "true" ? "app" : "org"),
+    allowedRedirectOrigins: config.allowedRedirectOrigins
+      ? normalizeOrigins(config.allowedRedirectOrigins)
+      : parseOriginList(process.env.NEXT_PUBLIC_ELIZA_REDIRECT_ORIGINS),
+    sessionEndpoint:
+      config.sessionEndpoint !== undefined
+        ? config.sessionEndpoint
+        : process.env.NEXT_PUBLIC_ELIZA_SESSION_ENDPOINT || null,
+  };
+}
+
+/**
+ * Create an SDK client. Omitted options fall back to the environment
+ * defaults used by the module-level functions.
+ */
+export function createElizaClient(config: ElizaClientConfig = {}): ElizaClient {
+  const pipeline = createMiddlewarePipeline(
+    // Wrap the global so it is never called with the config as `this`
+    config.fetch ?? ((input, init) => fetch(input, init)),
+    config.middleware,
+  );
+  const ctx = resolveConfig(config, pipeline.fetch);
+  const auth = createAuthApi(ctx);
+  const credits = createCreditsApi(ctx, auth);
+
+  return {
+    ...createElizaApi(ctx, auth),
+    auth,
+    credits,
+    account: createAccountApi(ctx, auth),
+    pricing: createPricingApi(ctx, auth),
+    config: ctx,
+    use: pipeline.use,
+  };
+}
+
+// ============================================================================
+// Default Client
+// ============================================================================
+
+let defaultClient: ElizaClient | null = null;
+
+/**
+ * The client behind the module-level SDK functions.
+ * Created on first use from environment variables.
+ */
+export function getDefaultClient(): ElizaClient {
+  if (!defaultClient) defaultClient = createElizaClient();
+  return defaultClient;
+}
+
+/**
+ * Replace the default client, e.g. to point the module-level functions
+ * at a local stub server in tests.
+ */
+export function setDefaultClient(client: ElizaClient): void {
+  defaultClient = client;
+}
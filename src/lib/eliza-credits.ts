@@ -1,7 +1,8 @@
 /**
  * Eliza Cloud App Credits
  *
- * Manages user credit balances using organization credits.
+ * Manages user credit balances using organization credits, or app-specific
+ * credits when the client is created with `creditsMode: "app"`.
  *
  * @example
  * import { getAppCredits, purchaseCredits } from '@/lib/eliza-credits';
@@ -14,14 +15,12 @@
  * window.location.href = url;
  */
 
-import { getAuthHeaders, isAuthenticated } from "./eliza-auth";
-
-const apiBase =
-  process.env.NEXT_PUBLIC_ELIZA_API_URL || "https://www.elizacloud.ai";
-const appId = process.env.NEXT_PUBLIC_ELIZA_APP_ID || "";
-
-// Use organization credits by default. Set to true for app-specific credits.
-const USE_APP_CREDITS = process.env.NEXT_PUBLIC_USE_APP_CREDITS === "true";
+import type { ElizaAuthApi } from "./eliza-auth";
+import type { ElizaClientContext } from "./eliza-client";
+import { getDefaultClient } from "./eliza-client";
+import { UnauthorizedError, isElizaApiError } from "./eliza-errors";
+import { resolveRedirect } from "./eliza-redirect";
+import { createRequestLayer, type RequestOptions } from "./eliza-request";
 
 // ============================================================================
 // Types
@@ -48,9 +47,15 @@ export interface CheckoutSession {
 export interface PurchaseParams {
   /** Amount of credits to purchase (in dollars) */
   amount: number;
-  /** URL to redirect after successful purchase */
+  /**
+   * URL to redirect after successful purchase. Must be on the app's origin
+   * or an allowed redirect origin.
+   */
   successUrl?: string;
-  /** URL to redirect if user cancels */
+  /**
+   * URL to redirect if user cancels. Same rules as `successUrl`.
+   * Defaults to the /billing page with a "checkout cancelled" banner.
+   */
   cancelUrl?: string;
 }
 
@@ -62,6 +67,34 @@ export interface CreditUsageRecord {
   createdAt: string;
 }
 
+/** Request options for the paginated history functions */
+export interface HistoryOptions extends RequestOptions {
+  /** Records to skip, for fetching the page after the first `limit` */
+  offset?: number;
+}
+
+export interface UsageQuery {
+  /**
+   * Records per page
+   * @default 50
+   */
+  limit?: number;
+  /** `nextCursor` of the previous page; omit for the first page */
+  cursor?: string | null;
+  /** Only records of this operation, e.g. "chat" */
+  operation?: string;
+  /** Only records created at or after this time */
+  from?: Date | string;
+  /** Only records created before this time */
+  to?: Date | string;
+}
+
+export interface UsagePage {
+  records: CreditUsageRecord[];
+  /** Pass as `cursor` to get the next page; null on the last page */
+  nextCursor: string | null;
+}
+
 export interface PurchaseRecord {
   id: string;
   amount: number;
@@ -70,202 +103,373 @@ export interface PurchaseRecord {
 }
 
 // ============================================================================
-// Core Functions
+// Credits API
 // ============================================================================
 
+/** Prefix of the cursors `getUsagePage` makes up for offset-only servers */
+const OFFSET_CURSOR = "offset:";
+
 /**
- * Get the user's credit balance.
- * Uses organization credits by default, or app-specific credits if USE_APP_CREDITS is true.
- * Requires the user to be authenticated.
- *
- * @example
- * const { balance, isLow } = await getAppCredits();
- * if (isLow) showTopUpPrompt();
+ * Create the credits functions for one client.
  */
-export async function getAppCredits(): Promise<AppCreditBalance> {
-  if (!isAuthenticated()) {
-    return { balance: 0, totalPurchased: 0, totalSpent: 0, isLow: true };
+export function createCreditsApi(ctx: ElizaClientContext, auth: ElizaAuthApi) {
+  const { appId } = ctx;
+  const useAppCredits = ctx.creditsMode === "app";
+  const requests = createRequestLayer(ctx, auth);
+
+  /**
+   * Whether the server answered with an error status (as opposed to a
+   * network failure or abort).
+   */
+  function isHttpError(error: unknown): boolean {
+    return isElizaApiError(error) && error.status > 0;
   }
 
-  // Use organization credits endpoint by default
-  const endpoint = USE_APP_CREDITS
-    ? `${apiBase}/api/v1/app-credits/balance?app_id=${appId}`
-    : `${apiBase}/api/v1/credits/balance`;
-
-  const res = await fetch(endpoint, {
-    headers: getAuthHeaders(),
-  });
+  function pageQuery(limit: number, offset = 0): string {
+    return offset > 0 ? `limit=${limit}&offset=${offset}` : `limit=${limit}`;
+  }
 
-  if (!res.ok) {
-    throw new Error(`Failed to fetch credits: ${res.statusText}`);
+  /**
+   * Get the user's credit balance.
+   * Uses organization credits by default, or app-specific credits if the client's creditsMode is "app".
+   * Requires the user to be authenticated.
+   *
+   * @example
+   * const { balance, isLow } = await getAppCredits();
+   * if (isLow) showTopUpPrompt();
+   */
+  async function getAppCredits(
+    options?: RequestOptions,
+  ): Promise<AppCreditBalance> {
+    if (!auth.isAuthenticated()) {
+      return { balance: 0, totalPurchased: 0, totalSpent: 0, isLow: true };
+    }
+
+    // Use organization credits endpoint by default
+    const endpoint = useAppCredits
+      ? `/api/v1/app-credits/balance?app_id=${appId}`
+      : "/api/v1/credits/balance";
+
+    const data = await requests.json<Partial<AppCreditBalance>>(
+      endpoint,
+      { errorMessage: "Failed to fetch credits" },
+      options,
+    );
+    const balance = data.balance ?? 0;
+
+    return {
+      balance,
+      totalPurchased: data.totalPurchased ?? 0,
+      totalSpent: data.totalSpent ?? 0,
+      isLow: data.isLow ?? balance < 5,
+    };
   }
 
-  const data = await res.json();
-  const balance = data.balance ?? 0;
+  /**
+   * Create a checkout session to purchase credits.
+   * Returns a URL to redirect the user to Stripe checkout.
+   *
+   * @example
+   * const { url } = await purchaseCredits({ amount: 50 });
+   * window.location.href = url;
+   */
+  async function purchaseCredits(
+    params: PurchaseParams,
+    options?: RequestOptions,
+  ): Promise<CheckoutSession> {
+    if (!auth.isAuthenticated()) {
+      throw new UnauthorizedError("Must be signed in to purchase credits");
+    }
+
+    // Stripe needs absolute URLs; rejected targets use the defaults
+    const checkoutUrl = (target: string | undefined, fallback: string) =>
+      new URL(
+        resolveRedirect(target, ctx.allowedRedirectOrigins, fallback),
+        window.location.origin,
+      ).toString();
+    const successUrl = checkoutUrl(params.successUrl, "/billing/success");
+    const cancelUrl = checkoutUrl(
+      params.cancelUrl,
+      "/billing?checkout=cancelled",
+    );
+
+    // Use app-specific checkout for app credits, otherwise use main checkout
+    const endpoint = useAppCredits
+      ? "/api/v1/app-credits/checkout"
+      : "/api/v1/credits/checkout";
+
+    const body = useAppCredits
+      ? {
+          app_id: appId,
+          amount: params.amount,
+          success_url: successUrl,
+          cancel_url: cancelUrl,
+        }
+      : {
+          credits: params.amount,
+          success_url: successUrl,
+          cancel_url: cancelUrl,
+        };
+
+    return requests.json<CheckoutSession>(
+      endpoint,
+      {
+        method: "POST",
+        body,
+        errorMessage: "Failed to create checkout session",
+      },
+      options,
+    );
+  }
 
-  return {
-    balance,
-    totalPurchased: data.totalPurchased ?? 0,
-    totalSpent: data.totalSpent ?? 0,
-    isLow: data.isLow ?? balance < 5,
-  };
-}
+  /**
+   * Verify a purchase was successful.
+   * Call this on your success page with the session ID.
+   *
+   * @example
+   * const success = await verifyPurchase(sessionId);
+   * if (success) showSuccessMessage();
+   */
+  async function verifyPurchase(
+    sessionId: string,
+    options?: RequestOptions,
+  ): Promise<boolean> {
+    const endpoint = useAppCredits
+      ? `/api/v1/app-credits/verify?session_id=${sessionId}`
+      : `/api/v1/credits/verify?session_id=${sessionId}`;
+
+    try {
+      const data = await requests.json<{ success?: boolean }>(
+        endpoint,
+        {},
+        options,
+      );
+      return data.success === true;
+    } catch (e) {
+      if (isHttpError(e)) return false;
+      throw e;
+    }
+  }
 
-/**
- * Create a checkout session to purchase credits.
- * Returns a URL to redirect the user to Stripe checkout.
- *
- * @example
- * const { url } = await purchaseCredits({ amount: 50 });
- * window.location.href = url;
- */
-export async function purchaseCredits(
-  params: PurchaseParams,
-): Promise<CheckoutSession> {
-  if (!isAuthenticated()) {
-    throw new Error("Must be signed in to purchase credits");
+  /**
+   * Get credit usage history for the current user.
+   * Note: For org credits, this returns transaction history. For app credits, returns app-specific usage.
+   *
+   * @param limit Maximum number of records to return
+   *
+   * @example
+   * // Second page of 50
+   * const usage = await getUsageHistory(50, { offset: 50 });
+   */
+  async function getUsageHistory(
+    limit = 50,
+    options?: HistoryOptions,
+  ): Promise<CreditUsageRecord[]> {
+    if (!auth.isAuthenticated()) {
+      return [];
+    }
+
+    const page = pageQuery(limit, options?.offset);
+    const endpoint = useAppCredits
+      ? `/api/v1/app-credits/usage?app_id=${appId}&${page}`
+      : `/api/v1/credits/transactions?${page}`;
+
+    try {
+      const data = await requests.json<{
+        usage?: CreditUsageRecord[];
+        transactions?: CreditUsageRecord[];
+      }>(endpoint, { errorMessage: "Failed to fetch usage history" }, options);
+      return data.usage || data.transactions || [];
+    } catch (e) {
+      // Org credits might not have a transactions endpoint - gracefully fail
+      if (!useAppCredits && isHttpError(e)) return [];
+      throw e;
+    }
   }
 
-  const successUrl =
-    params.successUrl || `${window.location.origin}/billing/success`;
-  const cancelUrl = params.cancelUrl || `${window.location.origin}/billing`;
-
-  // Use app-specific checkout for app credits, otherwise use main checkout
-  const endpoint = USE_APP_CREDITS
-    ? `${apiBase}/api/v1/app-credits/checkout`
-    : `${apiBase}/api/v1/credits/checkout`;
-
-  const body = USE_APP_CREDITS
-    ? {
-        app_id: appId,
-        amount: params.amount,
-        success_url: successUrl,
-        cancel_url: cancelUrl,
+  /**
+   * Get one page of usage history, optionally filtered by operation and
+   * date range. Follow `nextCursor` for the next page. A page is only
+   * empty once there are no more matching records.
+   *
+   * @example
+   * let page = await getUsagePage({ operation: "image", from: "2025-01-01" });
+   * while (page.nextCursor) {
+   *   page = await getUsagePage({ operation: "image", cursor: page.nextCursor });
+   * }
+   */
+  async function getUsagePage(
+    query: UsageQuery = {},
+    options?: RequestOptions,
+  ): Promise<UsagePage> {
+    if (!auth.isAuthenticated()) {
+      return { records: [], nextCursor: null };
+    }
+
+    const { limit = 50, operation } = query;
+    const from = query.from ? new Date(query.from) : null;
+    const to = query.to ? new Date(query.to) : null;
+    let cursor = query.cursor;
+
+    // A server that ignores the filters can send a page with no matches;
+    // keep going so callers only see an empty page at the end
+    for (;;) {
+      // Servers without cursors get an offset cursor of our own
+      const offset = cursor?.startsWith(OFFSET_CURSOR)
+        ? Number(cursor.slice(OFFSET_CURSOR.length)) || 0
+        : 0;
+
+      const params = new URLSearchParams({ limit: String(limit) });
+      if (useAppCredits) params.set("app_id", appId);
+      if (cursor && !cursor.startsWith(OFFSET_CURSOR)) {
+        params.set("cursor", cursor);
       }
-    : {
-        credits: params.amount,
-        success_url: successUrl,
-        cancel_url: cancelUrl,
+      if (offset > 0) params.set("offset", String(offset));
+      if (operation) params.set("operation", operation);
+      if (from) params.set("from", from.toISOString());
+      if (to) params.set("to", to.toISOString());
+
+      const endpoint = useAppCredits
+        ? `/api/v1/app-credits/usage?${params}`
+        : `/api/v1/credits/transactions?${params}`;
+
+      let data: {
+        usage?: CreditUsageRecord[];
+        transactions?: CreditUsageRecord[];
+        nextCursor?: string | null;
+        next_cursor?: string | null;
       };
+      try {
+        data = await requests.json(
+          endpoint,
+          { errorMessage: "Failed to fetch usage history" },
+          options,
+        );
+      } catch (e) {
+        // Org credits might not have a transactions endpoint - gracefully fail
+        if (!useAppCredits && isHttpError(e)) {
+          return { records: [], nextCursor: null };
+        }
+        throw e;
+      }
 
-  const res = await fetch(endpoint, {
-    method: "POST",
-    headers: {
-      "Content-Type": "application/json",
-      ...getAuthHeaders(),
-    },
-    body: JSON.stringify(body),
-  });
-
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error(error.error || "Failed to create checkout session");
+      const page = data.usage || data.transactions || [];
+      const serverCursor = data.nextCursor ?? data.next_cursor;
+      const nextCursor =
+        serverCursor !== undefined
+          ? serverCursor || null
+          : page.length === limit
+            ? `${OFFSET_CURSOR}${offset + page.length}`
+            : null;
+
+      // In case the server ignores the filters
+      const records = page.filter((record) => {
+        if (operation && record.operation !== operation) return false;
+        const createdAt = new Date(record.createdAt);
+        if (from && createdAt < from) return false;
+        if (to && createdAt >= to) return false;
+        return true;
+      });
+
+      if (records.length > 0 || !nextCursor || nextCursor === cursor) {
+        return { records, nextCursor };
+      }
+      cursor = nextCursor;
+    }
   }
 
-  return res.json();
-}
-
-/**
- * Verify a purchase was successful.
- * Call this on your success page with the session ID.
- *
- * @example
- * const success = await verifyPurchase(sessionId);
- * if (success) showSuccessMessage();
- */
-export async function verifyPurchase(sessionId: string): Promise<boolean> {
-  const endpoint = USE_APP_CREDITS
-    ? `${apiBase}/api/v1/app-credits/verify?session_id=${sessionId}`
-    : `${apiBase}/api/v1/credits/verify?session_id=${sessionId}`;
-
-  const res = await fetch(endpoint, {
-    headers: getAuthHeaders(),
-  });
+  /**
+   * Get purchase history for the current user.
+   * Note: For org credits, this returns payment history. For app credits, returns app-specific purchases.
+   *
+   * @param limit Maximum number of records to return
+   */
+  async function getPurchaseHistory(
+    limit = 50,
+    options?: HistoryOptions,
+  ): Promise<PurchaseRecord[]> {
+    if (!auth.isAuthenticated()) {
+      return [];
+    }
+
+    const page = pageQuery(limit, options?.offset);
+    const endpoint = useAppCredits
+      ? `/api/v1/app-credits/history?app_id=${appId}&${page}`
+      : `/api/v1/credits/purchases?${page}`;
+
+    try {
+      const data = await requests.json<{ purchases?: PurchaseRecord[] }>(
+        endpoint,
+        { errorMessage: "Failed to fetch purchase history" },
+        options,
+      );
+      return data.purchases || [];
+    } catch (e) {
+      // Org credits might not have a purchases endpoint - gracefully fail
+      if (!useAppCredits && isHttpError(e)) return [];
+      throw e;
+    }
+  }
 
-  if (!res.ok) return false;
+  /**
+   * Check if user has enough credits for an operation.
+   * Use this before expensive operations to show warnings.
+   *
+   * @param requiredCredits The minimum credits needed
+   */
+  async function hasEnoughCredits(
+    requiredCredits: number,
+    options?: RequestOptions,
+  ): Promise<boolean> {
+    try {
+      const { balance } = await getAppCredits(options);
+      return balance >= requiredCredits;
+    } catch {
+      return false;
+    }
+  }
 
-  const data = await res.json();
-  return data.success === true;
+  return {
+    getAppCredits,
+    purchaseCredits,
+    verifyPurchase,
+    getUsageHistory,
+    getUsagePage,
+    getPurchaseHistory,
+    hasEnoughCredits,
+  };
 }
 
-/**
- * Get credit usage history for the current user.
- * Note: For org credits, this returns transaction history. For app credits, returns app-specific usage.
- *
- * @param limit Maximum number of records to return
- */
-export async function getUsageHistory(
-  limit = 50,
-): Promise<CreditUsageRecord[]> {
-  if (!isAuthenticated()) {
-    return [];
-  }
-
-  const endpoint = USE_APP_CREDITS
-    ? `${apiBase}/api/v1/app-credits/usage?app_id=${appId}&limit=${limit}`
-    : `${apiBase}/api/v1/credits/transactions?limit=${limit}`;
+export type ElizaCreditsApi = ReturnType<typeof createCreditsApi>;
 
-  const res = await fetch(endpoint, {
-    headers: getAuthHeaders(),
-  });
+// ============================================================================
+// Default Instance
+// ============================================================================
 
-  if (!res.ok) {
-    // Org credits might not have a transactions endpoint - gracefully fail
-    if (!USE_APP_CREDITS) return [];
-    throw new Error("Failed to fetch usage history");
-  }
+// Module-level functions run against the default client (see eliza-client.ts).
 
-  const data = await res.json();
-  return data.usage || data.transactions || [];
-}
+export const getAppCredits: ElizaCreditsApi["getAppCredits"] = (...args) =>
+  getDefaultClient().credits.getAppCredits(...args);
 
-/**
- * Get purchase history for the current user.
- * Note: For org credits, this returns payment history. For app credits, returns app-specific purchases.
- *
- * @param limit Maximum number of records to return
- */
-export async function getPurchaseHistory(
-  limit = 50,
-): Promise<PurchaseRecord[]> {
-  if (!isAuthenticated()) {
-    return [];
-  }
+export const purchaseCredits: ElizaCreditsApi["purchaseCredits"] = (...args) =>
+  getDefaultClient().credits.purchaseCredits(...args);
 
-  const endpoint = USE_APP_CREDITS
-    ? `${apiBase}/api/v1/app-credits/history?app_id=${appId}&limit=${limit}`
-    : `${apiBase}/api/v1/credits/purchases?limit=${limit}`;
+export const verifyPurchase: ElizaCreditsApi["verifyPurchase"] = (...args) =>
+  getDefaultClient().credits.verifyPurchase(...args);
 
-  const res = await fetch(endpoint, {
-    headers: getAuthHeaders(),
-  });
+export const getUsageHistory: ElizaCreditsApi["getUsageHistory"] = (...args) =>
+  getDefaultClient().credits.getUsageHistory(...args);
 
-  if (!res.ok) {
-    // Org credits might not have a purchases endpoint - gracefully fail
-    if (!USE_APP_CREDITS) return [];
-    throw new Error("Failed to fetch purchase history");
-  }
+export const getUsagePage: ElizaCreditsApi["getUsagePage"] = (...args) =>
+  getDefaultClient().credits.getUsagePage(...args);
 
-  const data = await res.json();
-  return data.purchases || [];
-}
+export const getPurchaseHistory: ElizaCreditsApi["getPurchaseHistory"] = (
+  ...args
+) => getDefaultClient().credits.getPurchaseHistory(...args);
 
-/**
- * Check if user has enough credits for an operation.
- * Use this before expensive operations to show warnings.
- *
- * @param requiredCredits The minimum credits needed
- */
-export async function hasEnoughCredits(
-  requiredCredits: number,
-): Promise<boolean> {
-  try {
-    const { balance } = await getAppCredits();
-    return balance >= requiredCredits;
-  } catch {
-    return false;
-  }
-}
+export const hasEnoughCredits: ElizaCreditsApi["hasEnoughCredits"] = (
+  ...args
+) => getDefaultClient().credits.hasEnoughCredits(...args);
 
 // ============================================================================
 // Presets for Common Amounts
@@ -288,6 +492,7 @@ export const elizaCredits = {
   purchaseCredits,
   verifyPurchase,
   getUsageHistory,
+  getUsagePage,
   getPurchaseHistory,
   hasEnoughCredits,
   CREDIT_PRESETS,
@@ -0,0 +1,324 @@
+/**
+ * Eliza Cloud SDK Errors
+ *
+ * Typed errors thrown by every SDK call. Branch on the class (or `code`)
+ * instead of matching on error messages.
+ *
+ * @example
+ * import { InsufficientCreditsError, isElizaApiError } from '@/lib/eliza-errors';
+ *
+ * try {
+ *   await chat(messages);
+ * } catch (e) {
+ *   if (e instanceof InsufficientCreditsError) showTopUp();
+ *   else if (isElizaApiError(e)) console.error(e.status, e.requestId);
+ * }
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ElizaErrorCode =
+  | "INSUFFICIENT_CREDITS"
+  | "UNAUTHORIZED"
+  | "RATE_LIMITED"
+  | "VALIDATION_ERROR"
+  | "NETWORK_ERROR"
+  | "STREAM_ERROR"
+  | "API_ERROR";
+
+export interface ElizaApiErrorOptions {
+  /** HTTP status code (0 when the request never reached the server) */
+  status: number;
+  /** Machine-readable error code. Server-provided codes take precedence. */
+  code?: string;
+  /** Request ID from the `X-Request-Id` response header, if any */
+  requestId?: string | null;
+  /** Parsed response body (JSON if possible, otherwise raw text) */
+  body?: unknown;
+  /** Milliseconds to wait before retrying, from the `Retry-After` header */
+  retryAfterMs?: number | null;
+  /** Underlying error, if any */
+  cause?: unknown;
+}
+
+// ============================================================================
+// Error Classes
+// ============================================================================
+
+/**
+ * Base error for every failed Eliza Cloud API call.
+ */
+export class ElizaApiError extends Error {
+  readonly status: number;
+  readonly code: ElizaErrorCode | (string & {});
+  readonly requestId: string | null;
+  readonly body: unknown;
+  readonly retryAfterMs: number | null;
+
+  constructor(message: string, options: ElizaApiErrorOptions) {
+    super(message, { cause: options.cause });
+    this.name = "ElizaApiError";
+    this.status = options.status;
+    this.code = options.code ?? "API_ERROR";
+    this.requestId = options.requestId ?? null;
+    this.body = options.body;
+    this.retryAfterMs = options.retryAfterMs ?? null;
+  }
+}
+
+/**
+ * The user does not have enough credits for the operation (HTTP 402).
+ */
+export class InsufficientCreditsError extends ElizaApiError {
+  constructor(
+    message = "Not enough credits. Please purchase more.",
+    options: Partial<ElizaApiErrorOptions> = {},
+  ) {
+    super(message, {
+      ...options,
+      status: options.status ?? 402,
+      code: "INSUFFICIENT_CREDITS",
+    });
+    this.name = "InsufficientCreditsError";
+  }
+}
+
+/**
+ * The session is missing, invalid or expired (HTTP 401).
+ */
+export class UnauthorizedError extends ElizaApiError {
+  constructor(
+    message = "Authentication required",
+    options: Partial<ElizaApiErrorOptions> = {},
+  ) {
+    super(message, {
+      ...options,
+      status: options.status ?? 401,
+      code: "UNAUTHORIZED",
+    });
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * Too many requests (HTTP 429). Check `retryAfterMs` before retrying.
+ */
+export class RateLimitError extends ElizaApiError {
+  constructor(
+    message = "Too many requests. Please slow down.",
+    options: Partial<ElizaApiErrorOptions> = {},
+  ) {
+    super(message, {
+      ...options,
+      status: options.status ?? 429,
+      code: "RATE_LIMITED",
+    });
+    this.name = "RateLimitError";
+  }
+}
+
+/**
+ * The server rejected the request payload (HTTP 400 / 422).
+ */
+export class ValidationError extends ElizaApiError {
+  constructor(
+    message = "Invalid request",
+    options: Partial<ElizaApiErrorOptions> = {},
+  ) {
+    super(message, {
+      ...options,
+      status: options.status ?? 400,
+      code: options.code ?? "VALIDATION_ERROR",
+    });
+    this.name = "ValidationError";
+  }
+}
+
+/**
+ * The request never completed (offline, DNS failure, CORS, connection reset).
+ */
+export class NetworkError extends ElizaApiError {
+  constructor(
+    message = "Network request failed",
+    options: Partial<ElizaApiErrorOptions> = {},
+  ) {
+    super(message, { ...options, status: 0, code: "NETWORK_ERROR" });
+    this.name = "NetworkError";
+  }
+}
+
+/** Why a sign-in callback was rejected */
+export type AuthFlowErrorCode =
+  /** The callback's `state` doesn't match a sign-in started in this browser */
+  | "STATE_MISMATCH"
+  /** The sign-in was started too long ago */
+  | "FLOW_EXPIRED"
+  /** The callback carried neither a token nor an authorization code */
+  | "MISSING_TOKEN"
+  /** Eliza Cloud reported an error or refused the authorization code */
+  | "PROVIDER_ERROR"
+  /** The browser blocked the sign-in popup */
+  | "POPUP_BLOCKED"
+  /** The user closed the sign-in popup before finishing */
+  | "POPUP_CLOSED";
+
+const AUTH_FLOW_MESSAGES: Record<AuthFlowErrorCode, string> = {
+  STATE_MISMATCH: "This sign-in link was not started from this browser.",
+  FLOW_EXPIRED: "This sign-in attempt has expired.",
+  MISSING_TOKEN: "No authentication token received",
+  PROVIDER_ERROR: "Sign in was rejected by Eliza Cloud",
+  POPUP_BLOCKED: "The sign-in popup was blocked. Allow popups for this site.",
+  POPUP_CLOSED: "The sign-in popup was closed before sign in finished.",
+};
+
+/**
+ * A sign-in callback failed verification (`handleCallback`).
+ * Nothing was stored; start a new sign-in.
+ */
+export class AuthFlowError extends Error {
+  readonly code: AuthFlowErrorCode;
+
+  constructor(
+    code: AuthFlowErrorCode,
+    message = AUTH_FLOW_MESSAGES[code],
+    options: { cause?: unknown } = {},
+  ) {
+    super(message, { cause: options.cause });
+    this.name = "AuthFlowError";
+    this.code = code;
+  }
+}
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+export function isElizaApiError(error: unknown): error is ElizaApiError {
+  return error instanceof ElizaApiError;
+}
+
+/**
+ * Whether the error came from an aborted request (AbortSignal fired).
+ */
+export function isAbortError(error: unknown): boolean {
+  return (
+    (error instanceof DOMException || error instanceof Error) &&
+    error.name === "AbortError"
+  );
+}
+
+export function isAuthFlowError(error: unknown): error is AuthFlowError {
+  return error instanceof AuthFlowError;
+}
+
+export function isInsufficientCreditsError(
+  error: unknown,
+): error is InsufficientCreditsError {
+  return error instanceof InsufficientCreditsError;
+}
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(value: string | null): number | null {
+  if (!value) return null;
+
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - Date.now());
+}
+
+/**
+ * Pull a human-readable message and code out of the common server error
+ * shapes: `{ error }`, `{ message }`, `{ error: { message, code } }`.
+ */
+function extractErrorDetails(body: unknown): {
+  message?: string;
+  code?: string;
+} {
+  if (typeof body === "string") return { message: body || undefined };
+  if (!body || typeof body !== "object") return {};
+
+  const record = body as Record<string, unknown>;
+  const nested =
+    record.error && typeof record.error === "object"
+      ? (record.error as Record<string, unknown>)
+      : null;
+
+  const message =
+    (typeof record.error === "string" && record.error) ||
+    (typeof record.message === "string" && record.message) ||
+    (nested && typeof nested.message === "string" && nested.message) ||
+    undefined;
+
+  const code =
+    (typeof record.code === "string" && record.code) ||
+    (nested && typeof nested.code === "string" && nested.code) ||
+    undefined;
+
+  return { message, code };
+}
+
+/**
+ * Build the appropriate typed error from a failed response.
+ * Consumes the response body.
+ *
+ * @param res The non-ok response
+ * @param fallbackMessage Used when the server sends no message
+ */
+export async function createApiError(
+  res: Response,
+  fallbackMessage = "Eliza API Error",
+): Promise<ElizaApiError> {
+  const text = await res.text().catch(() => "");
+  let body: unknown = text;
+  try {
+    body = text ? JSON.parse(text) : null;
+  } catch {
+    // Not JSON - keep raw text
+  }
+
+  const details = extractErrorDetails(body);
+  const options: ElizaApiErrorOptions = {
+    status: res.status,
+    code: details.code,
+    requestId: res.headers.get("x-request-id"),
+    body,
+    retryAfterMs: parseRetryAfter(res.headers.get("retry-after")),
+  };
+  const message = details.message || `${fallbackMessage} (${res.status})`;
+
+  switch (res.status) {
+    case 400:
+    case 422:
+      return new ValidationError(message, options);
+    case 401:
+      return new UnauthorizedError(message, options);
+    case 402:
+      return new InsufficientCreditsError(
+        details.message || undefined,
+        options,
+      );
+    case 429:
+      return new RateLimitError(details.message || undefined, options);
+    default:
+      return new ElizaApiError(message, options);
+  }
+}
+
+/**
+ * Wrap a failed `fetch` (TypeError etc.) in a NetworkError.
+ * Abort errors are passed through untouched so callers can detect them.
+ */
+export function toNetworkError(error: unknown): unknown {
+  if (error instanceof ElizaApiError || isAbortError(error)) return error;
+  return new NetworkError(
+    error instanceof Error ? error.message : "Network request failed",
+    { cause: error },
+  );
+}
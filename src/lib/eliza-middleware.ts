@@ -0,0 +1,130 @@
+/**
+ * Eliza Cloud Middleware
+ *
+ * Interceptors every SDK request flows through, including streaming
+ * endpoints, auth and credits calls. Each retry attempt passes through the
+ * chain again.
+ *
+ * - `onRequest` runs in registration order and may return a new request
+ * - `onResponse` runs in reverse order and may return a new response.
+ *   HTTP error statuses arrive here too (`res.ok === false`).
+ * - `onError` runs in reverse order when no response was received (network
+ *   failure or abort). Returning a response recovers from the error.
+ *
+ * @example
+ * const client = createElizaClient({
+ *   middleware: [
+ *     {
+ *       onRequest(req) {
+ *         req.meta.startedAt = performance.now();
+ *         const headers = new Headers(req.init.headers);
+ *         headers.set("X-Trace-Id", crypto.randomUUID());
+ *         return { ...req, init: { ...req.init, headers } };
+ *       },
+ *       onResponse(res, req) {
+ *         const ms = performance.now() - (req.meta.startedAt as number);
+ *         console.log(`${req.init.method ?? "GET"} ${req.url} ${res.status} ${ms}ms`);
+ *       },
+ *     },
+ *   ],
+ * });
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ElizaRequest {
+  url: string;
+  init: RequestInit;
+  /** Scratch space shared by the middleware handling this request */
+  meta: Record<string, unknown>;
+}
+
+type MaybePromise<T> = T | Promise<T>;
+
+export interface ElizaMiddleware {
+  /** Shown in devtools and error messages */
+  name?: string;
+  /** Inspect or replace the outgoing request */
+  onRequest?: (request: ElizaRequest) => MaybePromise<ElizaRequest | void>;
+  /** Inspect or replace the response. Streaming bodies are not yet consumed. */
+  onResponse?: (
+    response: Response,
+    request: ElizaRequest,
+  ) => MaybePromise<Response | void>;
+  /** Observe a failed request, or recover by returning a response */
+  onError?: (
+    error: unknown,
+    request: ElizaRequest,
+  ) => MaybePromise<Response | void>;
+}
+
+export interface MiddlewarePipeline {
+  /** fetch with the middleware chain applied */
+  fetch: typeof fetch;
+  /** Add middleware. Returns a function that removes it again. */
+  use: (middleware: ElizaMiddleware) => () => void;
+}
+
+// ============================================================================
+// Pipeline
+// ============================================================================
+
+function toUrl(input: string | URL | Request): string {
+  if (typeof input === "string") return input;
+  if (input instanceof URL) return input.href;
+  return input.url;
+}
+
+/**
+ * Wrap a fetch implementation with a middleware chain.
+ */
+export function createMiddlewarePipeline(
+  fetchImpl: typeof fetch,
+  initial: ElizaMiddleware[] = [],
+): MiddlewarePipeline {
+  const middleware = [...initial];
+
+  async function run(
+    input: string | URL | Request,
+    init: RequestInit = {},
+  ): Promise<Response> {
+    // Snapshot so middleware added mid-request doesn't see half of it
+    const chain = [...middleware];
+    const reversed = [...chain].reverse();
+
+    let request: ElizaRequest = { url: toUrl(input), init, meta: {} };
+    for (const m of chain) {
+      if (m.onRequest) request = (await m.onRequest(request)) ?? request;
+    }
+
+    let response: Response | undefined;
+    try {
+      response = await fetchImpl(request.url, request.init);
+    } catch (error) {
+      for (const m of reversed) {
+        if (!m.onError) continue;
+        response = (await m.onError(error, request)) ?? undefined;
+        if (response) break;
+      }
+      if (!response) throw error;
+    }
+
+    for (const m of reversed) {
+      if (m.onResponse)
+        response = (await m.onResponse(response, request)) ?? response;
+    }
+    return response;
+  }
+
+  function use(entry: ElizaMiddleware): () => void {
+    middleware.push(entry);
+    return () => {
+      const index = middleware.indexOf(entry);
+      if (index !== -1) middleware.splice(index, 1);
+    };
+  }
+
+  return { fetch: run, use };
+}
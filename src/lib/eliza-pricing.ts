@@ -0,0 +1,384 @@
+/**
+ * Eliza Cloud Pricing
+ *
+ * Estimate what a chat turn, image, video or speech clip will cost before
+ * making the call. Prices come from `/api/v1/pricing` (cached per client
+ * for an hour), with a built-in table as fallback when it can't be
+ * fetched. Estimates are approximate: chat tokens are counted with a
+ * characters-per-token heuristic, and the server bills actual usage.
+ *
+ * @example
+ * import { estimateCost } from '@/lib/eliza-pricing';
+ * import { hasEnoughCredits } from '@/lib/eliza-credits';
+ *
+ * const { credits } = await estimateCost({ operation: "video", duration: 10 });
+ * if (!(await hasEnoughCredits(credits))) showTopUp();
+ */
+
+import type { ChatMessage } from "./eliza";
+import type { ElizaAuthApi } from "./eliza-auth";
+import type { ElizaClientContext } from "./eliza-client";
+import { getDefaultClient } from "./eliza-client";
+import { isAbortError } from "./eliza-errors";
+import { createRequestLayer, type RequestOptions } from "./eliza-request";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ChatPrice {
+  /** Credits per 1,000 prompt tokens */
+  inputPer1kTokens: number;
+  /** Credits per 1,000 completion tokens */
+  outputPer1kTokens: number;
+}
+
+export interface ImagePrice {
+  /** Credits per image up to 1024×1024; larger images scale by pixels */
+  perImage: number;
+}
+
+export interface VideoPrice {
+  /** Credits per second of video */
+  perSecond: number;
+  /** Duration used when none is given */
+  defaultDuration: number;
+}
+
+export interface TtsPrice {
+  /** Credits per 1,000 characters of text */
+  per1kCharacters: number;
+}
+
+/**
+ * Prices per model for each operation. The "default" entry prices models
+ * that aren't listed.
+ */
+export interface PriceTable {
+  chat: Record<string, ChatPrice>;
+  image: Record<string, ImagePrice>;
+  video: Record<string, VideoPrice>;
+  tts: Record<string, TtsPrice>;
+}
+
+export type CostEstimateRequest =
+  | {
+      operation: "chat";
+      messages: ChatMessage[];
+      model?: string;
+      /** Expected reply length in tokens */
+      outputTokens?: number;
+    }
+  | {
+      operation: "image";
+      model?: string;
+      numImages?: number;
+      width?: number;
+      height?: number;
+    }
+  | { operation: "video"; model?: string; duration?: number }
+  | { operation: "tts"; text: string; modelId?: string };
+
+export type CostOperation = CostEstimateRequest["operation"];
+
+export interface LoadedPrices {
+  table: PriceTable;
+  /** Whether the prices came from the server or the built-in table */
+  source: "server" | "fallback";
+}
+
+export interface CostEstimate {
+  /** Estimated credits */
+  credits: number;
+  operation: CostOperation;
+  /** Model the price was looked up for */
+  model: string;
+  /** What the estimate is based on, e.g. "~420 tokens in, ~500 out" */
+  basis: string;
+  source: LoadedPrices["source"];
+}
+
+// ============================================================================
+// Price Table
+// ============================================================================
+
+/** Built-in prices, used when the pricing endpoint is unavailable */
+export const DEFAULT_PRICE_TABLE: PriceTable = {
+  chat: {
+    default: { inputPer1kTokens: 0.0025, outputPer1kTokens: 0.01 },
+    "gpt-4o": { inputPer1kTokens: 0.0025, outputPer1kTokens: 0.01 },
+    "gpt-4o-mini": { inputPer1kTokens: 0.00015, outputPer1kTokens: 0.0006 },
+  },
+  image: {
+    default: { perImage: 0.04 },
+  },
+  video: {
+    default: { perSecond: 0.1, defaultDuration: 5 },
+  },
+  tts: {
+    default: { per1kCharacters: 0.03 },
+  },
+};
+
+const PRICING_TTL = 60 * 60 * 1000; // 1 hour
+/** How long to wait before asking again after the pricing fetch failed */
+const FALLBACK_PRICING_TTL = 2 * 60 * 1000; // 2 minutes
+
+/** Rough average for English text with GPT-style tokenizers */
+const CHARS_PER_TOKEN = 4;
+/** Role and formatting tokens added to every message */
+const TOKENS_PER_MESSAGE = 4;
+const DEFAULT_OUTPUT_TOKENS = 500;
+const BASE_IMAGE_PIXELS = 1024 * 1024;
+
+/**
+ * Approximate the prompt tokens of a conversation.
+ */
+export function estimateTokens(messages: ChatMessage[]): number {
+  return messages.reduce(
+    (sum, message) =>
+      sum +
+      TOKENS_PER_MESSAGE +
+      Math.ceil(message.content.length / CHARS_PER_TOKEN),
+    0,
+  );
+}
+
+function priceFor<T>(prices: Record<string, T>, model?: string): T {
+  return (model && prices[model]) || prices.default;
+}
+
+/**
+ * Estimate a request's cost against a given price table. Synchronous, for
+ * rendering; `estimateCost` loads the table for you.
+ */
+export function calculateCost(
+  request: CostEstimateRequest,
+  table: PriceTable = DEFAULT_PRICE_TABLE,
+  source: LoadedPrices["source"] = "fallback",
+): CostEstimate {
+  switch (request.operation) {
+    case "chat": {
+      const model = request.model ?? "gpt-4o";
+      const price = priceFor(table.chat, model);
+      const input = estimateTokens(request.messages);
+      const output = request.outputTokens ?? DEFAULT_OUTPUT_TOKENS;
+      return {
+        credits:
+          (input / 1000) * price.inputPer1kTokens +
+          (output / 1000) * price.outputPer1kTokens,
+        operation: "chat",
+        model,
+        basis: `~${input.toLocaleString()} tokens in, ~${output.toLocaleString()} out`,
+        source,
+      };
+    }
+    case "image": {
+      const model = request.model ?? "default";
+      const price = priceFor(table.image, request.model);
+      const count = request.numImages ?? 1;
+      const pixels = (request.width ?? 1024) * (request.height ?? 1024);
+      const scale = Math.max(1, pixels / BASE_IMAGE_PIXELS);
+      return {
+        credits: price.perImage * count * scale,
+        operation: "image",
+        model,
+        basis: `${count} ${count === 1 ? "image" : "images"}${
+          request.width && request.height
+            ? ` at ${request.width}×${request.height}`
+            : ""
+        }`,
+        source,
+      };
+    }
+    case "video": {
+      const model = request.model ?? "default";
+      const price = priceFor(table.video, request.model);
+      const duration = request.duration ?? price.defaultDuration;
+      return {
+        credits: price.perSecond * duration,
+        operation: "video",
+        model,
+        basis: `${duration}s of video`,
+        source,
+      };
+    }
+    case "tts": {
+      const model = request.modelId ?? "default";
+      const price = priceFor(table.tts, request.modelId);
+      const characters = request.text.length;
+      return {
+        credits: (characters / 1000) * price.per1kCharacters,
+        operation: "tts",
+        model,
+        basis: `${characters.toLocaleString()} characters`,
+        source,
+      };
+    }
+  }
+}
+
+/**
+ * Settle with `promise`, or reject as soon as `signal` aborts.
+ */
+function raceSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => reject(signal.reason);
+    signal.addEventListener("abort", onAbort, { once: true });
+    promise.then(resolve, reject).finally(() => {
+      signal.removeEventListener("abort", onAbort);
+    });
+  });
+}
+
+/**
+ * Server prices layered over the defaults, so a partial table still
+ * prices every operation.
+ */
+function mergePriceTable(partial: Partial<PriceTable>): PriceTable {
+  return {
+    chat: { ...DEFAULT_PRICE_TABLE.chat, ...partial.chat },
+    image: { ...DEFAULT_PRICE_TABLE.image, ...partial.image },
+    video: { ...DEFAULT_PRICE_TABLE.video, ...partial.video },
+    tts: { ...DEFAULT_PRICE_TABLE.tts, ...partial.tts },
+  };
+}
+
+// ============================================================================
+// Pricing API
+// ============================================================================
+
+/**
+ * Create the pricing functions for one client.
+ */
+export function createPricingApi(ctx: ElizaClientContext, auth: ElizaAuthApi) {
+  const { appId } = ctx;
+  const requests = createRequestLayer(ctx, auth);
+
+  let cached: (LoadedPrices & { expiresAt: number }) | null = null;
+  let inFlight: {
+    promise: Promise<LoadedPrices>;
+    controller: AbortController;
+    waiters: number;
+  } | null = null;
+
+  // A failed fetch caches the defaults only briefly, so the server's
+  // prices are picked up soon without re-requesting on every estimate
+  async function loadPriceTable(signal: AbortSignal): Promise<LoadedPrices> {
+    try {
+      const data = await requests.json<{ pricing?: Partial<PriceTable> }>(
+        `/api/v1/pricing?app_id=${appId}`,
+        { errorMessage: "Failed to fetch pricing" },
+        { retry: false, signal },
+      );
+      const prices: LoadedPrices = data.pricing
+        ? { table: mergePriceTable(data.pricing), source: "server" }
+        : { table: DEFAULT_PRICE_TABLE, source: "fallback" };
+      cached = { ...prices, expiresAt: Date.now() + PRICING_TTL };
+      return prices;
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      // Estimates still work without the server's prices
+      const prices: LoadedPrices = {
+        table: DEFAULT_PRICE_TABLE,
+        source: "fallback",
+      };
+      cached = { ...prices, expiresAt: Date.now() + FALLBACK_PRICING_TTL };
+      return prices;
+    }
+  }
+
+  /**
+   * Get the price table: the server's, or the built-in one if it can't be
+   * fetched. Cached for an hour (a couple of minutes after a failed
+   * fetch); concurrent calls share one request, which is only cancelled
+   * once every caller has aborted.
+   */
+  async function getPriceTable(
+    options?: RequestOptions,
+  ): Promise<LoadedPrices> {
+    if (cached && Date.now() < cached.expiresAt) {
+      return { table: cached.table, source: cached.source };
+    }
+    if (!inFlight) {
+      const controller = new AbortController();
+      const request = {
+        controller,
+        waiters: 0,
+        promise: loadPriceTable(controller.signal).finally(() => {
+          if (inFlight === request) inFlight = null;
+        }),
+      };
+      inFlight = request;
+    }
+
+    const shared = inFlight;
+    shared.waiters++;
+    try {
+      return await raceSignal(shared.promise, options?.signal);
+    } finally {
+      shared.waiters--;
+      if (shared.waiters === 0 && options?.signal?.aborted) {
+        shared.controller.abort();
+        if (inFlight === shared) inFlight = null;
+      }
+    }
+  }
+
+  /**
+   * Estimate what a call will cost before making it.
+   *
+   * @example
+   * const estimate = await estimateCost({ operation: "chat", messages });
+   * console.log(`~${estimate.credits.toFixed(4)} credits`);
+   *
+   * await estimateCost({ operation: "image", numImages: 2, width: 1024, height: 1792 });
+   * await estimateCost({ operation: "video", duration: 10 });
+   * await estimateCost({ operation: "tts", text });
+   */
+  async function estimateCost(
+    request: CostEstimateRequest,
+    options?: RequestOptions,
+  ): Promise<CostEstimate> {
+    const { table, source } = await getPriceTable(options);
+    return calculateCost(request, table, source);
+  }
+
+  return {
+    getPriceTable,
+    estimateCost,
+  };
+}
+
+export type ElizaPricingApi = ReturnType<typeof createPricingApi>;
+
+// ============================================================================
+// Default Instance
+// ============================================================================
+
+// Module-level functions run against the default client (see eliza-client.ts).
+
+export const getPriceTable: ElizaPricingApi["getPriceTable"] = (...args) =>
+  getDefaultClient().pricing.getPriceTable(...args);
+
+export const estimateCost: ElizaPricingApi["estimateCost"] = (...args) =>
+  getDefaultClient().pricing.estimateCost(...args);
+
+// ============================================================================
+// Utility Exports
+// ============================================================================
+
+export const elizaPricing = {
+  getPriceTable,
+  estimateCost,
+  calculateCost,
+  estimateTokens,
+  DEFAULT_PRICE_TABLE,
+};
+
+export default elizaPricing;
@@ -0,0 +1,110 @@
+/**
+ * Eliza Cloud Redirect Policy
+ *
+ * Guards every redirect the SDK performs on a caller's behalf (after
+ * sign-in, after checkout) against open redirects. Targets on the app's
+ * own origin are always allowed; other origins must be listed in the
+ * client's `allowedRedirectOrigins`. Rejected targets fall back to a safe
+ * path and log a warning.
+ *
+ * @example
+ * resolveRedirect("/dashboard");                    // "/dashboard"
+ * resolveRedirect("https://evil.example/phish");    // "/" (with a warning)
+ * resolveRedirect("https://docs.myapp.com/x", ["https://docs.myapp.com"]);
+ * // "https://docs.myapp.com/x"
+ */
+
+/**
+ * Query parameter carrying the page to return to after sign-in, set by
+ * `createAuthMiddleware` and read by `signIn`.
+ */
+export const RETURN_TO_PARAM = "redirect";
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Normalize configured origins ("https://app.com/", "https://app.com:443")
+ * to `URL.origin` form. Invalid entries are dropped.
+ */
+export function normalizeOrigins(origins: readonly string[]): string[] {
+  return origins.flatMap((origin) => {
+    try {
+      return [new URL(origin.trim()).origin];
+    } catch {
+      return [];
+    }
+  });
+}
+
+/**
+ * Parse the comma-separated NEXT_PUBLIC_ELIZA_REDIRECT_ORIGINS value.
+ */
+export function parseOriginList(value: string | undefined): string[] {
+  return normalizeOrigins(
+    (value ?? "").split(",").filter((origin) => origin.trim()),
+  );
+}
+
+/** A same-origin path that can't be reinterpreted as another host */
+function isSafePath(target: string): boolean {
+  return /^\/(?![/\\])/.test(target);
+}
+
+// ============================================================================
+// Policy
+// ============================================================================
+
+/**
+ * Whether the SDK may redirect to `target`.
+ * Only http(s) URLs on the current origin or an allowed origin pass.
+ */
+export function isAllowedRedirect(
+  target: string,
+  allowedOrigins: readonly string[] = [],
+): boolean {
+  // Without a window there is no current origin to compare against
+  if (typeof window === "undefined") return isSafePath(target);
+
+  let url: URL;
+  try {
+    url = new URL(target, window.location.origin);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return false;
+
+  return (
+    url.origin === window.location.origin ||
+    normalizeOrigins(allowedOrigins).includes(url.origin)
+  );
+}
+
+/**
+ * Return `target` if it passes the redirect policy, otherwise `fallback`.
+ * Same-origin targets come back as a path (ready for `router.push`);
+ * allowed cross-origin targets come back as absolute URLs.
+ */
+export function resolveRedirect(
+  target: string | null | undefined,
+  allowedOrigins: readonly string[] = [],
+  fallback = "/",
+): string {
+  if (!target) return fallback;
+
+  if (!isAllowedRedirect(target, allowedOrigins)) {
+    console.warn(
+      `[Eliza] Blocked redirect to untrusted URL "${target}", using "${fallback}" instead. ` +
+        "Add its origin to allowedRedirectOrigins to allow it.",
+    );
+    return fallback;
+  }
+
+  if (typeof window === "undefined") return target;
+
+  const url = new URL(target, window.location.origin);
+  return url.origin === window.location.origin
+    ? `${url.pathname}${url.search}${url.hash}`
+    : url.href;
+}
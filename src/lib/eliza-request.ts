@@ -0,0 +1,178 @@
+/**
+ * Eliza Cloud Request Layer
+ *
+ * The single place SDK endpoints send requests from, so auth headers,
+ * `X-App-Id`, retries and error mapping (401, 402, 429, ...) behave the
+ * same for JSON, streaming, FormData and Blob endpoints.
+ *
+ * A 401 on a signed-in request triggers one session refresh and a replay.
+ * If that fails the session is expired, which clears the token and
+ * broadcasts "session-expired" to auth subscribers.
+ *
+ * @example
+ * const requests = createRequestLayer(ctx, auth);
+ * const result = await requests.json<ChatResponse>("/api/v1/chat/completions", {
+ *   method: "POST",
+ *   body: { messages, model },
+ * });
+ */
+
+import type { ElizaAuthApi } from "./eliza-auth";
+import type { ElizaClientContext } from "./eliza-client";
+import { ElizaApiError, createApiError } from "./eliza-errors";
+import { fetchWithRetry, type RetryOptions } from "./eliza-retry";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Per-call options accepted by every SDK function */
+export interface RequestOptions extends RetryOptions {
+  /** Abort the request (and close the stream, for streaming calls) */
+  signal?: AbortSignal;
+}
+
+export interface ElizaRequestConfig {
+  method?: string;
+  /**
+   * Request body. FormData, Blob and strings are sent as-is; anything else
+   * is sent as JSON.
+   */
+  body?: unknown;
+  headers?: Record<string, string>;
+  /** Error message used when the server doesn't provide one */
+  errorMessage?: string;
+}
+
+/** A successful streaming response whose body is guaranteed */
+export type StreamResponse = Response & { body: ReadableStream<Uint8Array> };
+
+// ============================================================================
+// Request Layer
+// ============================================================================
+
+function encodeBody(body: unknown): {
+  body?: BodyInit;
+  contentType?: string;
+} {
+  if (body === undefined) return {};
+  if (
+    typeof body === "string" ||
+    body instanceof FormData ||
+    body instanceof Blob
+  ) {
+    // Let fetch set the multipart boundary / blob type
+    return { body };
+  }
+  return { body: JSON.stringify(body), contentType: "application/json" };
+}
+
+/**
+ * Create the request functions for one client.
+ */
+export function createRequestLayer(
+  ctx: ElizaClientContext,
+  auth: ElizaAuthApi,
+) {
+  /**
+   * Send a request and return the response.
+   * Throws a typed ElizaApiError for non-2xx responses.
+   */
+  async function send(
+    path: string,
+    config: ElizaRequestConfig = {},
+    options?: RequestOptions,
+  ): Promise<Response> {
+    const { body, contentType } = encodeBody(config.body);
+
+    // Headers are rebuilt per attempt so a replay picks up a refreshed token
+    const attempt = () =>
+      fetchWithRetry(
+        `${ctx.apiBase}${path}`,
+        {
+          method: config.method ?? (body === undefined ? "GET" : "POST"),
+          headers: {
+            ...(contentType && { "Content-Type": contentType }),
+            ...config.headers,
+            ...auth.getAuthHeaders(),
+          },
+          body,
+          signal: options?.signal,
+        },
+        options,
+        ctx.fetch,
+      );
+
+    const tokenUsed = auth.getToken();
+    let res = await attempt();
+
+    if (res.status === 401 && tokenUsed) {
+      // Another call may already have refreshed the token
+      const replay =
+        auth.getToken() !== tokenUsed || (await auth.refreshSession());
+      if (replay && auth.getToken()) {
+        await res.body?.cancel().catch(() => {});
+        res = await attempt();
+      }
+      if (res.status === 401) auth.expireSession();
+    }
+
+    if (!res.ok) throw await createApiError(res, config.errorMessage);
+    return res;
+  }
+
+  /**
+   * Send a request and parse the JSON response.
+   */
+  async function json<T>(
+    path: string,
+    config?: ElizaRequestConfig,
+    options?: RequestOptions,
+  ): Promise<T> {
+    const res = await send(path, config, options);
+    return res.json();
+  }
+
+  /**
+   * Send a request and read the response as a Blob (audio, images).
+   */
+  async function blob(
+    path: string,
+    config?: ElizaRequestConfig,
+    options?: RequestOptions,
+  ): Promise<Blob> {
+    const res = await send(path, config, options);
+    return res.blob();
+  }
+
+  /**
+   * Open a Server-Sent Events stream.
+   * Resolves once the server accepts the request; read the body with
+   * `readSSEJson`.
+   */
+  async function stream(
+    path: string,
+    config?: ElizaRequestConfig,
+    options?: RequestOptions,
+  ): Promise<StreamResponse> {
+    const res = await send(
+      path,
+      {
+        ...config,
+        headers: { Accept: "text/event-stream", ...config?.headers },
+      },
+      options,
+    );
+    if (!res.body) {
+      throw new ElizaApiError("No response body", {
+        status: res.status,
+        requestId: res.headers.get("x-request-id"),
+      });
+    }
+    return res as StreamResponse;
+  }
+
+  return { send, json, blob, stream };
+}
+
+export type ElizaRequestLayer = ReturnType<typeof createRequestLayer>;
@@ -0,0 +1,188 @@
+/**
+ * Eliza Cloud Retry Policy
+ *
+ * Retries transient failures (429, 502, 503, 504 and network errors) with
+ * exponential backoff and full jitter, honoring `Retry-After`.
+ *
+ * Only requests that are safe to repeat are retried: idempotent methods
+ * (GET, HEAD, OPTIONS, PUT, DELETE) and requests carrying an
+ * `Idempotency-Key` header. Other requests (e.g. a chat POST) fail on the
+ * first 429, 5xx or network error.
+ *
+ * @example
+ * const res = await fetchWithRetry(url, { method: "GET" }, {
+ *   retry: { maxAttempts: 5 },
+ *   onRetry: ({ attempt, maxAttempts }) => console.log(`retrying (${attempt}/${maxAttempts})`),
+ * });
+ */
+
+import { isAbortError, parseRetryAfter, toNetworkError } from "./eliza-errors";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface RetryPolicy {
+  /** Total attempts including the first one. 1 disables retries. */
+  maxAttempts: number;
+  /** Delay before the first retry; doubles on every attempt */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay */
+  maxDelayMs: number;
+  /** Give up instead of honoring a Retry-After longer than this */
+  maxRetryAfterMs: number;
+  /** Response statuses considered transient */
+  retryOnStatus: number[];
+}
+
+export interface RetryInfo {
+  /** The attempt about to be made (2 for the first retry) */
+  attempt: number;
+  maxAttempts: number;
+  /** How long we wait before the attempt */
+  delayMs: number;
+  /** Status of the failed response, or 0 for a network failure */
+  status: number;
+}
+
+export interface RetryOptions {
+  /** Override the retry policy for this call, or `false` to disable retries */
+  retry?: Partial<RetryPolicy> | false;
+  /** Called before each retry, e.g. to show "retrying (2/3)" */
+  onRetry?: (info: RetryInfo) => void;
+  /**
+   * Sent as the `Idempotency-Key` header. Lets non-idempotent requests
+   * (e.g. POST) be retried safely on 429, 5xx and network failures.
+   */
+  idempotencyKey?: string;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 10_000,
+  maxRetryAfterMs: 60_000,
+  retryOnStatus: [429, 502, 503, 504],
+};
+
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+// ============================================================================
+// Helpers
+// ============================================================================
+
+/**
+ * Whether a request can be repeated without side effects.
+ */
+export function isIdempotentRequest(init: RequestInit = {}): boolean {
+  const method = (init.method || "GET").toUpperCase();
+  if (IDEMPOTENT_METHODS.has(method)) return true;
+  return new Headers(init.headers).has("Idempotency-Key");
+}
+
+/**
+ * Backoff delay before `attempt` (2 = first retry), using full jitter.
+ * A server-provided Retry-After always wins.
+ */
+export function getRetryDelay(
+  attempt: number,
+  policy: RetryPolicy,
+  retryAfterMs: number | null = null,
+): number {
+  if (retryAfterMs !== null) return retryAfterMs;
+  const exponential = policy.baseDelayMs * 2 ** (attempt - 2);
+  return Math.round(Math.random() * Math.min(exponential, policy.maxDelayMs));
+}
+
+export function resolveRetryPolicy(
+  override?: Partial<RetryPolicy> | false,
+): RetryPolicy {
+  if (override === false) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  return { ...DEFAULT_RETRY_POLICY, ...override };
+}
+
+/**
+ * Wait for `ms`, rejecting early if the signal aborts.
+ */
+function sleep(ms: number, signal?: AbortSignal | null): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// ============================================================================
+// Fetch With Retry
+// ============================================================================
+
+/**
+ * `fetch` with the retry policy applied.
+ * Resolves with the final response (which may still be non-ok) and throws a
+ * NetworkError if the last attempt could not reach the server.
+ * `fetchImpl` lets a client substitute its own fetch.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit = {},
+  options: RetryOptions = {},
+  fetchImpl: typeof fetch = fetch,
+): Promise<Response> {
+  const policy = resolveRetryPolicy(options.retry);
+  if (options.idempotencyKey) {
+    const headers = new Headers(init.headers);
+    headers.set("Idempotency-Key", options.idempotencyKey);
+    init = { ...init, headers };
+  }
+  const idempotent = isIdempotentRequest(init);
+
+  for (let attempt = 1; ; attempt++) {
+    const canRetry = attempt < policy.maxAttempts;
+    let res: Response;
+
+    try {
+      res = await fetchImpl(url, init);
+    } catch (e) {
+      if (isAbortError(e) || !canRetry || !idempotent) throw toNetworkError(e);
+
+      const delayMs = getRetryDelay(attempt + 1, policy);
+      options.onRetry?.({
+        attempt: attempt + 1,
+        maxAttempts: policy.maxAttempts,
+        delayMs,
+        status: 0,
+      });
+      await sleep(delayMs, init.signal);
+      continue;
+    }
+
+    const retryable = idempotent && policy.retryOnStatus.includes(res.status);
+    if (!canRetry || !retryable) return res;
+
+    const retryAfterMs = parseRetryAfter(res.headers.get("retry-after"));
+    if (retryAfterMs !== null && retryAfterMs > policy.maxRetryAfterMs) {
+      return res;
+    }
+
+    const delayMs = getRetryDelay(attempt + 1, policy, retryAfterMs);
+    options.onRetry?.({
+      attempt: attempt + 1,
+      maxAttempts: policy.maxAttempts,
+      delayMs,
+      status: res.status,
+    });
+    // Release the connection before waiting
+    await res.body?.cancel().catch(() => {});
+    await sleep(delayMs, init.signal);
+  }
+}
@@ -0,0 +1,270 @@
+/**
+ * Eliza Cloud Server Auth
+ *
+ * Server-only helpers for server components, route handlers and Next
+ * middleware (`middleware.ts` / `proxy.ts`). The user is read from the
+ * `Authorization: Bearer` header or the session cookie (see
+ * eliza-session.ts), validated against `/api/v1/app-auth/session` and
+ * cached for the rest of the request.
+ *
+ * @example
+ * // Server component
+ * const user = await getServerUser();
+ *
+ * // Route handler
+ * export const GET = withElizaAuth(async (request, user) => {
+ *   return Response.json({ id: user.id });
+ * });
+ */
+
+import "server-only";
+import { cache } from "react";
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
+import { NextResponse, type NextRequest } from "next/server";
+import type { ElizaUser } from "./eliza-auth";
+import { UnauthorizedError } from "./eliza-errors";
+import { RETURN_TO_PARAM } from "./eliza-redirect";
+import { SESSION_COOKIE, verifySessionToken } from "./eliza-session";
+import { TOKEN_KEY } from "./eliza-token-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/** Anything with `get(name)` like Next's `cookies()` or `request.cookies` */
+export interface CookieReader {
+  get(name: string): { value: string } | undefined;
+}
+
+/** Where to read the session from */
+export type ServerAuthSource = Request | CookieReader;
+
+export interface AuthMiddlewareOptions {
+  /**
+   * Paths that need a signed-in user: exact paths ("/account"), prefixes
+   * ("/dashboard/:path*" or "/dashboard/*") or regular expressions.
+   */
+  protectedPaths: (string | RegExp)[];
+  /**
+   * Where signed-out visitors are sent.
+   * @default "/"
+   */
+  redirectTo?: string;
+  /**
+   * Query parameter that tells the sign-in page where the visitor was
+   * headed. `signIn` reads "redirect" and returns there once signed in,
+   * subject to the redirect policy. false leaves it off.
+   * @default "redirect"
+   */
+  returnToParam?: string | false;
+  /**
+   * Validate the session with Eliza Cloud. When false, only checks that a
+   * session cookie exists (faster, but pages must still verify).
+   * @default true
+   */
+  verify?: boolean;
+}
+
+// ============================================================================
+// Session Lookup
+// ============================================================================
+
+function readCookieHeader(header: string | null, name: string): string | null {
+  if (!header) return null;
+  const prefix = `${name}=`;
+  const cookie = header.split(/;\s*/).find((entry) => entry.startsWith(prefix));
+  return cookie
+    ? decodeURIComponent(cookie.slice(prefix.length)) || null
+    : null;
+}
+
+/**
+ * The session token carried by a request or cookie store: the bearer
+ * header, then the httpOnly session cookie, then a cookie token store.
+ */
+function readToken(source: ServerAuthSource): string | null {
+  if (source instanceof Request) {
+    const header = source.headers.get("authorization");
+    if (header?.startsWith("Bearer ")) return header.slice(7) || null;
+    const cookieHeader = source.headers.get("cookie");
+    return (
+      readCookieHeader(cookieHeader, SESSION_COOKIE) ??
+      readCookieHeader(cookieHeader, TOKEN_KEY)
+    );
+  }
+  return (
+    source.get(SESSION_COOKIE)?.value || source.get(TOKEN_KEY)?.value || null
+  );
+}
+
+// Memoized per request in server components
+const verifyToken = cache(
+  async (token: string): Promise<ElizaUser | null> =>
+    (await verifySessionToken(token))?.user ?? null,
+);
+
+// Route handlers and middleware get a fresh Request per request
+const requestCache = new WeakMap<Request, Promise<ElizaUser | null>>();
+
+function lookupUser(source: ServerAuthSource): Promise<ElizaUser | null> {
+  const token = readToken(source);
+  return token ? verifyToken(token) : Promise.resolve(null);
+}
+
+/**
+ * Get the signed-in user on the server, or null.
+ * Defaults to the current request's cookies (server components, route
+ * handlers and server actions). Throws an `ElizaApiError` when Eliza
+ * Cloud can't be reached, rather than treating the user as signed out.
+ *
+ * @example
+ * export default async function Page() {
+ *   const user = await getServerUser();
+ *   return user ? <Dashboard user={user} /> : <SignInButton />;
+ * }
+ */
+export async function getServerUser(
+  source?: ServerAuthSource,
+): Promise<ElizaUser | null> {
+  const resolved = source ?? (await cookies());
+  if (!(resolved instanceof Request)) return lookupUser(resolved);
+
+  let pending = requestCache.get(resolved);
+  if (!pending) {
+    pending = lookupUser(resolved);
+    requestCache.set(resolved, pending);
+  }
+  return pending;
+}
+
+/**
+ * Get the signed-in user or stop. Redirects to `redirectTo` if given,
+ * otherwise throws an `UnauthorizedError`.
+ *
+ * @example
+ * const user = await requireUser(undefined, { redirectTo: "/" });
+ */
+export async function requireUser(
+  source?: ServerAuthSource,
+  options: { redirectTo?: string } = {},
+): Promise<ElizaUser> {
+  const user = await getServerUser(source);
+  if (user) return user;
+  if (options.redirectTo) redirect(options.redirectTo);
+  throw new UnauthorizedError();
+}
+
+/**
+ * Wrap a route handler so it only runs for signed-in users. Others get a
+ * 401 JSON response, or a 503 when Eliza Cloud can't be reached.
+ *
+ * @example
+ * // src/app/api/notes/route.ts
+ * export const GET = withElizaAuth(async (request, user) => {
+ *   return Response.json(await getNotes(user.id));
+ * });
+ */
+export function withElizaAuth<Req extends Request = Request, Context = unknown>(
+  handler: (
+    request: Req,
+    user: ElizaUser,
+    context: Context,
+  ) => Response | Promise<Response>,
+): (request: Req, context: Context) => Promise<Response> {
+  return async (request, context) => {
+    let user: ElizaUser | null;
+    try {
+      user = await getServerUser(request);
+    } catch {
+      return Response.json(
+        { error: "Could not verify session, try again later" },
+        { status: 503 },
+      );
+    }
+    if (!user) {
+      return Response.json(
+        { error: "Authentication required" },
+        { status: 401 },
+      );
+    }
+    return handler(request, user, context);
+  };
+}
+
+// ============================================================================
+// Middleware
+// ============================================================================
+
+/**
+ * Whether `pathname` matches a protected path pattern.
+ */
+export function matchesPath(
+  pathname: string,
+  pattern: string | RegExp,
+): boolean {
+  if (pattern instanceof RegExp) return pattern.test(pathname);
+
+  const prefix = pattern.match(/^(.*?)\/(?:\*|:\w+\*)$/);
+  if (prefix) {
+    const base = prefix[1];
+    return pathname === (base || "/") || pathname.startsWith(`${base}/`);
+  }
+
+  const trim = (path: string) =>
+    path.length > 1 ? path.replace(/\/+$/, "") : path;
+  return trim(pathname) === trim(pattern);
+}
+
+/**
+ * Create a middleware function that redirects signed-out requests for
+ * protected paths before any page code or client JS runs. The requested
+ * path goes along as `?redirect=`, which `signIn` returns to.
+ *
+ * @example
+ * // src/middleware.ts (or src/proxy.ts)
+ * export default createAuthMiddleware({
+ *   protectedPaths: ["/account", "/dashboard/:path*"],
+ * });
+ *
+ * export const config = { matcher: ["/account", "/dashboard/:path*"] };
+ */
+export function createAuthMiddleware(options: AuthMiddlewareOptions) {
+  const {
+    protectedPaths,
+    redirectTo = "/",
+    returnToParam = RETURN_TO_PARAM,
+    verify = true,
+  } = options;
+
+  return async function elizaAuthMiddleware(
+    request: NextRequest,
+  ): Promise<NextResponse> {
+    const { pathname } = request.nextUrl;
+    if (!protectedPaths.some((pattern) => matchesPath(pathname, pattern))) {
+      return NextResponse.next();
+    }
+
+    let authenticated: boolean;
+    try {
+      authenticated = verify
+        ? !!(await getServerUser(request))
+        : !!readToken(request);
+    } catch {
+      // Don't sign users out because Eliza Cloud is unreachable
+      return new NextResponse("Could not verify session, try again later", {
+        status: 503,
+      });
+    }
+    if (authenticated) return NextResponse.next();
+
+    const target = new URL(redirectTo, request.url);
+    // Never redirect a page to itself
+    if (target.pathname === pathname) return NextResponse.next();
+    // Remember where they were going, so signing in takes them back
+    if (returnToParam) {
+      target.searchParams.set(returnToParam, pathname + request.nextUrl.search);
+    }
+    return NextResponse.redirect(target);
+  };
+}
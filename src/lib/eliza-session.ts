@@ -0,0 +1,125 @@
+/**
+ * Eliza Cloud Session Cookie
+ *
+ * Server-side half of the httpOnly session cookie. The browser SDK posts
+ * the token to the app's session route after sign-in (see
+ * `sessionEndpoint` in eliza-client.ts); the route verifies it with
+ * Eliza Cloud and stores it in a cookie scripts can't read, so server
+ * components and route handlers can authenticate requests.
+ *
+ * The cookie is opt-in and only mirrors the token: the browser SDK still
+ * keeps it in its token store (localStorage by default) to authenticate
+ * API calls, so it remains readable by scripts on the page.
+ *
+ * @example
+ * // src/app/api/auth/session/route.ts
+ * const session = await verifySessionToken(token);
+ * if (!session) return NextResponse.json({ error: "Invalid token" }, { status: 401 });
+ * // Throws when Eliza Cloud can't be reached - answer 503, not 401
+ * res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions(session.expiresAt));
+ */
+
+import { parseExpiresAt, type ElizaUser } from "./eliza-auth";
+import { createElizaClient, type ElizaClientConfig } from "./eliza-client";
+import { createApiError, toNetworkError } from "./eliza-errors";
+import { createMemoryTokenStore } from "./eliza-token-store";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface ElizaSession {
+  user: ElizaUser;
+  /** Token expiry in epoch ms, if known */
+  expiresAt: number | null;
+}
+
+// ============================================================================
+// Cookie
+// ============================================================================
+
+export const SESSION_COOKIE = "eliza_session";
+/** Cookie lifetime when the token's expiry is unknown, in seconds */
+const SESSION_MAX_AGE = 7 * 24 * 60 * 60;
+
+/**
+ * Attributes for the session cookie. It lives until the token expires.
+ */
+export function sessionCookieOptions(expiresAt: number | null = null) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "lax" as const,
+    path: "/",
+    maxAge:
+      expiresAt === null
+        ? SESSION_MAX_AGE
+        : Math.max(0, Math.floor((expiresAt - Date.now()) / 1000)),
+  };
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+/**
+ * Check a token with Eliza Cloud. Returns the session, or null if the
+ * token is invalid or expired. Throws an `ElizaApiError` when Eliza Cloud
+ * can't be reached or fails (network errors, 429, 5xx), so an outage
+ * isn't mistaken for a rejected token.
+ *
+ * @param config Overrides for the server-side client (API base, app ID)
+ */
+export async function verifySessionToken(
+  token: string,
+  config: Omit<ElizaClientConfig, "tokenStore"> = {},
+): Promise<ElizaSession | null> {
+  const client = createElizaClient({
+    ...config,
+    tokenStore: createMemoryTokenStore(token),
+    sessionEndpoint: null,
+  });
+  const { apiBase, appId, fetch: fetchImpl } = client.config;
+
+  // A plain fetch: the request layer would try to refresh a rejected token
+  let res: Response;
+  try {
+    res = await fetchImpl(`${apiBase}/api/v1/app-auth/session`, {
+      headers: { Authorization: `Bearer ${token}`, "X-App-Id": appId },
+    });
+  } catch (e) {
+    throw toNetworkError(e);
+  }
+
+  // Only a client error means the token was rejected; 429 and 5xx are outages
+  if (res.status >= 400 && res.status < 500 && res.status !== 429) {
+    return null;
+  }
+  if (!res.ok) throw await createApiError(res, "Failed to verify session");
+
+  const data: { user?: ElizaUser; expiresAt?: unknown } = await res.json();
+  if (!data.user) return null;
+  return {
+    user: data.user,
+    expiresAt: parseExpiresAt(data.expiresAt) ?? client.auth.getTokenExpiry(),
+  };
+}
+
+/**
+ * Whether a cookie-changing request came from the app's own pages.
+ * Stops other sites from planting their token in the user's cookie.
+ */
+export function isSameOriginRequest(request: Request): boolean {
+  const origin = request.headers.get("origin");
+  if (!origin) {
+    return request.headers.get("sec-fetch-site") === "same-origin";
+  }
+
+  const host =
+    request.headers.get("x-forwarded-host") ?? request.headers.get("host");
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+}
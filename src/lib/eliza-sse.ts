@@ -0,0 +1,188 @@
+/**
+ * Eliza Cloud Server-Sent Events Parser
+ *
+ * Spec-compliant SSE parsing shared by every streaming SDK call.
+ * Handles `event:`, multi-line `data:`, `id:` and `retry:` fields,
+ * comments, LF / CR / CRLF line endings and trailing data at stream end.
+ *
+ * @example
+ * for await (const event of readSSEJson<StreamChunk>(res.body)) {
+ *   if (event.type === "data") console.log(event.data);
+ *   if (event.type === "parse-error") console.warn(event.raw);
+ * }
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface SSEMessage {
+  /** Event name. Defaults to "message" when no `event:` field is sent. */
+  event: string;
+  /** Data payload. Multiple `data:` lines are joined with "\n". */
+  data: string;
+  /** Last event ID seen on the stream, if any */
+  id?: string;
+  /** Reconnection time requested by the server, in milliseconds */
+  retry?: number;
+}
+
+export type SSEJsonEvent<T> =
+  | { type: "data"; event: string; id?: string; data: T }
+  | {
+      type: "parse-error";
+      event: string;
+      id?: string;
+      raw: string;
+      error: Error;
+    }
+  | { type: "done" };
+
+// ============================================================================
+// Line Parsing
+// ============================================================================
+
+interface ParserState {
+  event: string;
+  data: string[];
+  lastEventId?: string;
+  retry?: number;
+}
+
+/**
+ * Apply one line to the parser state.
+ * Returns a complete message when the line is blank (dispatch).
+ */
+function processLine(state: ParserState, line: string): SSEMessage | null {
+  if (line === "") {
+    if (state.data.length === 0) {
+      state.event = "";
+      return null;
+    }
+    const message: SSEMessage = {
+      event: state.event || "message",
+      data: state.data.join("\n"),
+      id: state.lastEventId,
+      retry: state.retry,
+    };
+    state.event = "";
+    state.data = [];
+    return message;
+  }
+
+  // Comment line
+  if (line.startsWith(":")) return null;
+
+  const colon = line.indexOf(":");
+  const field = colon === -1 ? line : line.slice(0, colon);
+  let value = colon === -1 ? "" : line.slice(colon + 1);
+  if (value.startsWith(" ")) value = value.slice(1);
+
+  switch (field) {
+    case "event":
+      state.event = value;
+      break;
+    case "data":
+      state.data.push(value);
+      break;
+    case "id":
+      if (!value.includes("\0")) state.lastEventId = value;
+      break;
+    case "retry":
+      if (/^\d+$/.test(value)) state.retry = Number(value);
+      break;
+    // Unknown fields are ignored per spec
+  }
+
+  return null;
+}
+
+// ============================================================================
+// Stream Parsing
+// ============================================================================
+
+/**
+ * Parse a byte stream into SSE messages.
+ * If the consumer stops early (break, return, abort) the stream is cancelled
+ * so the underlying connection closes, and the reader is always released.
+ */
+export async function* parseSSE(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SSEMessage> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const state: ParserState = { event: "", data: [] };
+  let buffer = "";
+  let finished = false;
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      buffer += done
+        ? decoder.decode()
+        : decoder.decode(value, { stream: true });
+
+      // Split on CRLF, LF or CR. A trailing CR may be the first half of a
+      // CRLF split across chunks, so keep it buffered until more data arrives.
+      let start = 0;
+      for (let i = 0; i < buffer.length; i++) {
+        const char = buffer[i];
+        if (char !== "\n" && char !== "\r") continue;
+        if (char === "\r" && i === buffer.length - 1 && !done) break;
+
+        const message = processLine(state, buffer.slice(start, i));
+        if (message) yield message;
+
+        if (char === "\r" && buffer[i + 1] === "\n") i++;
+        start = i + 1;
+      }
+      buffer = buffer.slice(start);
+
+      if (done) break;
+    }
+
+    // Flush an unterminated final line and any event still being built
+    if (buffer) {
+      const message = processLine(state, buffer);
+      if (message) yield message;
+    }
+    const trailing = processLine(state, "");
+    finished = true;
+    if (trailing) yield trailing;
+  } finally {
+    if (!finished) await reader.cancel().catch(() => {});
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Parse an SSE stream whose `data:` payloads are JSON.
+ * `[DONE]` sentinels become a `done` event; malformed payloads become
+ * `parse-error` events instead of being dropped.
+ */
+export async function* readSSEJson<T = unknown>(
+  body: ReadableStream<Uint8Array>,
+): AsyncGenerator<SSEJsonEvent<T>> {
+  for await (const message of parseSSE(body)) {
+    if (message.data.trim() === "[DONE]") {
+      yield { type: "done" };
+      continue;
+    }
+
+    let data: T;
+    try {
+      data = JSON.parse(message.data) as T;
+    } catch (e) {
+      yield {
+        type: "parse-error",
+        event: message.event,
+        id: message.id,
+        raw: message.data,
+        error: e instanceof Error ? e : new Error(String(e)),
+      };
+      continue;
+    }
+
+    yield { type: "data", event: message.event, id: message.id, data };
+  }
+}
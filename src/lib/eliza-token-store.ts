@@ -0,0 +1,155 @@
+/**
+ * Eliza Cloud Token Storage
+ *
+ * Where a client keeps the user's auth token.
+ * Pass a custom store to `createElizaClient` to change the storage backend
+ * or to keep tokens for several app IDs apart on one page. Built in:
+ * localStorage (the default), sessionStorage, memory and cookie stores.
+ *
+ * @example
+ * const staging = createElizaClient({
+ *   appId: "staging-app",
+ *   tokenStore: createLocalStorageTokenStore("eliza_app_token:staging"),
+ * });
+ */
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export interface TokenStore {
+  /** Read the stored token, or null if there is none */
+  get(): string | null;
+  /** Persist a token */
+  set(token: string): void;
+  /** Remove the stored token */
+  clear(): void;
+}
+
+// ============================================================================
+// Implementations
+// ============================================================================
+
+export const TOKEN_KEY = "eliza_app_token";
+
+function createWebStorageTokenStore(
+  getStorage: () => Storage,
+  key: string,
+): TokenStore {
+  return {
+    get() {
+      if (typeof window === "undefined") return null;
+      return getStorage().getItem(key);
+    },
+    set(token) {
+      if (typeof window === "undefined") return;
+      getStorage().setItem(key, token);
+    },
+    clear() {
+      if (typeof window === "undefined") return;
+      getStorage().removeItem(key);
+    },
+  };
+}
+
+/**
+ * Token store backed by `localStorage`. Safe to create during SSR
+ * (reads return null on the server).
+ */
+export function createLocalStorageTokenStore(key = TOKEN_KEY): TokenStore {
+  return createWebStorageTokenStore(() => localStorage, key);
+}
+
+/**
+ * Token store backed by `sessionStorage`: the token is dropped when the
+ * tab closes and isn't shared with other tabs.
+ */
+export function createSessionStorageTokenStore(key = TOKEN_KEY): TokenStore {
+  return createWebStorageTokenStore(() => sessionStorage, key);
+}
+
+/**
+ * Token store that keeps the token in memory only, so nothing persists and
+ * no script can read it from storage. Signing in again is needed after a
+ * reload (pair with the httpOnly session cookie for server-side auth).
+ * Also handy on the server for a per-request client.
+ */
+export function createMemoryTokenStore(
+  initial: string | null = null,
+): TokenStore {
+  let token = initial;
+  return {
+    get: () => token,
+    set(value) {
+      token = value;
+    },
+    clear() {
+      token = null;
+    },
+  };
+}
+
+export interface CookieTokenStoreOptions {
+  /** @default "eliza_app_token" */
+  name?: string;
+  /** @default "/" */
+  path?: string;
+  domain?: string;
+  /** Lifetime in seconds. @default 604800 (7 days) */
+  maxAge?: number;
+  /** @default "lax" */
+  sameSite?: "strict" | "lax" | "none";
+  /** @default true on https pages */
+  secure?: boolean;
+}
+
+/**
+ * Token store backed by a regular (script-readable) cookie, so server
+ * components and route handlers receive the token with each request.
+ * For a cookie scripts can't read, use the httpOnly session cookie
+ * (`sessionEndpoint`) instead.
+ */
+export function createCookieTokenStore(
+  options: CookieTokenStoreOptions = {},
+): TokenStore {
+  const {
+    name = TOKEN_KEY,
+    path = "/",
+    domain,
+    maxAge = 7 * 24 * 60 * 60,
+    sameSite = "lax",
+  } = options;
+
+  function write(value: string, age: number) {
+    const secure = options.secure ?? window.location.protocol === "https:";
+    document.cookie = [
+      `${name}=${encodeURIComponent(value)}`,
+      `Path=${path}`,
+      domain && `Domain=${domain}`,
+      `Max-Age=${age}`,
+      `SameSite=${sameSite}`,
+      secure && "Secure",
+    ]
+      .filter(Boolean)
+      .join("; ");
+  }
+
+  return {
+    get() {
+      if (typeof document === "undefined") return null;
+      const prefix = `${name}=`;
+      const cookie = document.cookie
+        .split("; ")
+        .find((entry) => entry.startsWith(prefix));
+      return cookie ? decodeURIComponent(cookie.slice(prefix.length)) : null;
+    },
+    set(token) {
+      if (typeof document === "undefined") return;
+      write(token, maxAge);
+    },
+    clear() {
+      if (typeof document === "undefined") return;
+      write("", 0);
+    },
+  };
+}
@@ -0,0 +1,140 @@
+/**
+ * Eliza Cloud Top-Up Recovery
+ *
+ * When a generation request fails for lack of credits, the hooks in
+ * use-eliza.ts describe what's needed as a `NeedsTopUp` and hand it to the
+ * provider, which can offer a purchase. Checkout leaves the page, so the
+ * request is saved here (sessionStorage, this tab only) and replayed by
+ * the hook once /billing/success has verified the purchase and sent the
+ * user back.
+ *
+ * @example
+ * // Before redirecting to checkout
+ * savePendingRetry({ key: "image", args: [prompt, options], returnTo: "/studio" });
+ *
+ * // On the success page, after verifyPurchase
+ * const pending = markPendingRetryReady();
+ * if (pending) router.push(pending.returnTo);
+ *
+ * // In the hook, once mounted on that page
+ * const retry = takePendingRetry("image", pathname);
+ * if (retry) generate(...retry.args);
+ */
+
+import type { CostOperation } from "./eliza-pricing";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+/**
+ * A request that failed for lack of credits, with what's needed to top up
+ * and try again.
+ */
+export interface NeedsTopUp {
+  operation: CostOperation;
+  /** Estimated credits the request needs; null when unknown */
+  required: number | null;
+  /** Balance when the request failed; null when unknown */
+  balance: number | null;
+  /** Credits missing; null when unknown */
+  shortfall: number | null;
+  /** Replays the request after checkout; null when the hook opted out */
+  retryKey: string | null;
+  /** Arguments of the original call, saved for the replay */
+  args: unknown[];
+  /** Send the original request again, e.g. after a top-up in another tab */
+  retry: () => Promise<void>;
+}
+
+/** A request waiting for a purchase to complete */
+export interface PendingRetry {
+  /** Identifies the hook that replays the request, e.g. "image" */
+  key: string;
+  args: unknown[];
+  /** Path the request was made on; the hook replays it there */
+  returnTo: string;
+  /** "checkout" until the purchase is verified */
+  status: "checkout" | "ready";
+  createdAt: number;
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+const PENDING_RETRY_KEY = "eliza_pending_retry";
+/** Checkout must complete within this time for the request to be replayed */
+const PENDING_RETRY_TTL = 30 * 60 * 1000; // 30 minutes
+
+function readPendingRetry(): PendingRetry | null {
+  if (typeof window === "undefined") return null;
+  try {
+    const pending: PendingRetry | null = JSON.parse(
+      sessionStorage.getItem(PENDING_RETRY_KEY) ?? "null",
+    );
+    if (pending && Date.now() - pending.createdAt < PENDING_RETRY_TTL) {
+      return pending;
+    }
+  } catch {
+    // Unreadable entries are dropped below
+  }
+  sessionStorage.removeItem(PENDING_RETRY_KEY);
+  return null;
+}
+
+/**
+ * Save a request to replay after checkout. Replaces any earlier one.
+ */
+export function savePendingRetry(
+  retry: Pick<PendingRetry, "key" | "args" | "returnTo">,
+): void {
+  if (typeof window === "undefined") return;
+  const pending: PendingRetry = {
+    ...retry,
+    status: "checkout",
+    createdAt: Date.now(),
+  };
+  sessionStorage.setItem(PENDING_RETRY_KEY, JSON.stringify(pending));
+}
+
+/**
+ * Mark the saved request ready to replay. Call once the purchase is
+ * verified; returns the request so the user can be sent back to it.
+ */
+export function markPendingRetryReady(): PendingRetry | null {
+  const pending = readPendingRetry();
+  if (!pending) return null;
+  const ready: PendingRetry = { ...pending, status: "ready" };
+  sessionStorage.setItem(PENDING_RETRY_KEY, JSON.stringify(ready));
+  return ready;
+}
+
+/**
+ * Claim the saved request if it's ready, belongs to `key` and was made on
+ * `pathname`. Each request is replayed at most once.
+ */
+export function takePendingRetry(
+  key: string,
+  pathname: string,
+): PendingRetry | null {
+  const pending = readPendingRetry();
+  if (
+    !pending ||
+    pending.status !== "ready" ||
+    pending.key !== key ||
+    pending.returnTo.split("?")[0] !== pathname
+  ) {
+    return null;
+  }
+  sessionStorage.removeItem(PENDING_RETRY_KEY);
+  return pending;
+}
+
+/**
+ * Drop the saved request, if any.
+ */
+export function clearPendingRetry(): void {
+  if (typeof window === "undefined") return;
+  sessionStorage.removeItem(PENDING_RETRY_KEY);
+}
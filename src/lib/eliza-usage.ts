@@ -0,0 +1,204 @@
+/**
+ * Eliza Cloud Usage Reports
+ *
+ * Pure helpers for credit usage records from `getUsageHistory` /
+ * `getUsagePage`: group them by day or operation with subtotals, build
+ * spend series for charts, project how long a balance lasts, and export
+ * records as CSV or JSON.
+ *
+ * @example
+ * import { groupUsage, usageToCsv } from '@/lib/eliza-usage';
+ *
+ * for (const group of groupUsage(records, "operation")) {
+ *   console.log(group.label, group.total);
+ * }
+ *
+ * const csv = usageToCsv(records);
+ */
+
+import type { CreditUsageRecord } from "./eliza-credits";
+
+// ============================================================================
+// Types
+// ============================================================================
+
+export type UsageGroupBy = "day" | "operation";
+
+export interface DailySpend {
+  /** Local day, "YYYY-MM-DD" */
+  day: string;
+  total: number;
+}
+
+export interface CreditRunway {
+  /** Average credits spent per day over the window */
+  burnRate: number;
+  /** Days until the balance runs out at that rate; null with no spend */
+  daysLeft: number | null;
+  /** When the balance runs out; null with no spend */
+  emptyAt: Date | null;
+}
+
+export interface UsageGroup {
+  /** Day ("2025-01-31", local time) or operation name */
+  key: string;
+  /** Display label, e.g. "Jan 31, 2025" */
+  label: string;
+  records: CreditUsageRecord[];
+  /** Credits used by the records in this group */
+  total: number;
+}
+
+// ============================================================================
+// Grouping
+// ============================================================================
+
+/**
+ * The local calendar day of a timestamp as "YYYY-MM-DD".
+ */
+export function dayKey(value: Date | string): string {
+  const date = new Date(value);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Sum of `creditsUsed`.
+ */
+export function totalCredits(records: CreditUsageRecord[]): number {
+  return records.reduce((sum, record) => sum + record.creditsUsed, 0);
+}
+
+/**
+ * Group records by local day (newest first) or by operation (biggest
+ * spend first), each with a subtotal.
+ */
+export function groupUsage(
+  records: CreditUsageRecord[],
+  by: UsageGroupBy,
+): UsageGroup[] {
+  const groups = new Map<string, CreditUsageRecord[]>();
+  for (const record of records) {
+    const key = by === "day" ? dayKey(record.createdAt) : record.operation;
+    const group = groups.get(key);
+    if (group) group.push(record);
+    else groups.set(key, [record]);
+  }
+
+  const result = Array.from(groups, ([key, grouped]) => ({
+    key,
+    label:
+      by === "day"
+        ? new Date(`${key}T00:00:00`).toLocaleDateString(undefined, {
+            dateStyle: "medium",
+          })
+        : key,
+    records: grouped,
+    total: totalCredits(grouped),
+  }));
+
+  return by === "day"
+    ? result.sort((a, b) => b.key.localeCompare(a.key))
+    : result.sort((a, b) => b.total - a.total);
+}
+
+// ============================================================================
+// Spend Analytics
+// ============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Spend per local day for the last `days` days (today included), oldest
+ * first. Days without usage are included with a total of 0.
+ */
+export function dailySpend(
+  records: CreditUsageRecord[],
+  days = 30,
+  now: Date = new Date(),
+): DailySpend[] {
+  const totals = new Map<string, number>();
+  for (const record of records) {
+    const key = dayKey(record.createdAt);
+    totals.set(key, (totals.get(key) ?? 0) + record.creditsUsed);
+  }
+
+  return Array.from({ length: days }, (_, i) => {
+    const date = new Date(now);
+    date.setDate(date.getDate() - (days - 1 - i));
+    const day = dayKey(date);
+    return { day, total: totals.get(day) ?? 0 };
+  });
+}
+
+/**
+ * Project how long `balance` lasts at the average daily spend of the last
+ * `windowDays` days.
+ *
+ * @example
+ * const { daysLeft } = projectRunway(balance, records);
+ * if (daysLeft !== null && daysLeft < 3) showTopUpReminder();
+ */
+export function projectRunway(
+  balance: number,
+  records: CreditUsageRecord[],
+  windowDays = 7,
+  now: Date = new Date(),
+): CreditRunway {
+  const since = now.getTime() - windowDays * DAY_MS;
+  const spent = totalCredits(
+    records.filter((record) => {
+      const time = new Date(record.createdAt).getTime();
+      return time >= since && time <= now.getTime();
+    }),
+  );
+  const burnRate = spent / windowDays;
+  if (burnRate <= 0) return { burnRate: 0, daysLeft: null, emptyAt: null };
+
+  const daysLeft = Math.max(0, balance) / burnRate;
+  return {
+    burnRate,
+    daysLeft,
+    emptyAt: new Date(now.getTime() + daysLeft * DAY_MS),
+  };
+}
+
+// ============================================================================
+// Export
+// ============================================================================
+
+const CSV_COLUMNS = [
+  "id",
+  "createdAt",
+  "operation",
+  "description",
+  "creditsUsed",
+] as const;
+
+function csvCell(value: unknown): string {
+  if (value === undefined || value === null) return "";
+  let text = String(value);
+  // Keep spreadsheets from running text cells as formulas
+  if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Records as CSV with a header row, one record per line.
+ */
+export function usageToCsv(records: CreditUsageRecord[]): string {
+  const rows = records.map((record) =>
+    CSV_COLUMNS.map((column) => csvCell(record[column])).join(","),
+  );
+  return [CSV_COLUMNS.join(","), ...rows].join("\r\n");
+}
+
+/**
+ * Records as pretty-printed JSON.
+ */
+export function usageToJson(records: CreditUsageRecord[]): string {
+  return JSON.stringify(records, null, 2);
+}
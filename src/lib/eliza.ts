@@ -5,6 +5,10 @@
  * All API calls automatically use the injected API key.
  * When user is authenticated, their credits are used.
  *
+ * The functions exported here use the default client configured from
+ * environment variables. Use `createElizaClient` for a separately
+ * configured instance.
+ *
  * Available APIs:
  * - Chat: chat, chatStream
  * - Generation: generateImage, generateVideo, textToSpeech
@@ -16,11 +20,18 @@
  * - Analytics: trackPageView
  */
 
-import { getAuthHeaders, isAuthenticated } from "./eliza-auth";
+import type { ElizaAuthApi } from "./eliza-auth";
+import type { ElizaClientContext } from "./eliza-client";
+import { getDefaultClient } from "./eliza-client";
+import { ElizaApiError, isAbortError } from "./eliza-errors";
+import {
+  createRequestLayer,
+  type RequestOptions,
+  type StreamResponse,
+} from "./eliza-request";
+import { readSSEJson, type SSEJsonEvent } from "./eliza-sse";
 
-const apiBase =
-  process.env.NEXT_PUBLIC_ELIZA_API_URL || "https://www.elizacloud.ai";
-const appId = process.env.NEXT_PUBLIC_ELIZA_APP_ID || "";
+export type { RequestOptions } from "./eliza-request";
 
 // ============================================================================
 // Types
@@ -54,6 +65,15 @@ export interface StreamChunk {
   }>;
 }
 
+export interface ImageOptions {
+  model?: string;
+  width?: number;
+  height?: number;
+  numImages?: number;
+  aspectRatio?: "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
+  stylePreset?: string;
+}
+
 export interface ImageResult {
   url: string;
   id: string;
@@ -130,6 +150,13 @@ export interface StreamingMessage {
   type: "user" | "agent" | "thinking" | "error";
 }
 
+export type CharacterStreamEvent =
+  | { type: "chunk"; text: string; messageId: string }
+  | { type: "message"; message: StreamingMessage }
+  | { type: "thinking"; message: StreamingMessage }
+  | { type: "error"; error: string; cause: ElizaApiError }
+  | { type: "done" };
+
 export interface UploadResult {
   url: string;
   filename: string;
@@ -138,556 +165,569 @@ export interface UploadResult {
 }
 
 // ============================================================================
-// Core Fetch Utility
+// Helpers
 // ============================================================================
 
-async function elizaFetch<T>(
-  path: string,
-  options: RequestInit = {},
-): Promise<T> {
-  const url = `${apiBase}${path}`;
-  const headers: Record<string, string> = {
-    ...(options.headers as Record<string, string>),
-    ...getAuthHeaders(),
-  };
-
-  if (appId) {
-    headers["X-App-Id"] = appId;
-  }
-
-  const res = await fetch(url, { ...options, headers });
-
-  if (!res.ok) {
-    const errorText = await res.text();
-    if (res.status === 402) {
-      throw new Error(
-        "INSUFFICIENT_CREDITS: Not enough credits. Please purchase more.",
-      );
-    }
-    throw new Error(`Eliza API Error (${res.status}): ${errorText}`);
-  }
-
-  return res.json();
+/**
+ * Separate per-call RequestOptions from an endpoint's own parameters.
+ */
+function splitRequestOptions<T extends RequestOptions>(
+  options?: T,
+): [RequestOptions, Omit<T, keyof RequestOptions>] {
+  const { signal, retry, onRetry, idempotencyKey, ...params } =
+    options || ({} as T);
+  return [{ signal, retry, onRetry, idempotencyKey }, params];
 }
 
-// ============================================================================
-// Analytics
-// ============================================================================
-
-const trackedPaths = new Set<string>();
-
-export async function trackPageView(pathname?: string): Promise<void> {
-  if (typeof window === "undefined") return;
-
-  const path = pathname || window.location.pathname;
-  if (trackedPaths.has(path)) return;
-  trackedPaths.add(path);
-
-  try {
-    const payload = {
-      app_id: appId,
-      page_url: window.location.href,
-      pathname: path,
-      referrer: document.referrer,
-      screen_width: window.screen.width,
-      screen_height: window.screen.height,
-    };
-    const url = `${apiBase}/api/v1/track/pageview`;
-    const blob = new Blob([JSON.stringify(payload)], {
-      type: "application/json",
-    });
-    navigator.sendBeacon?.(url, blob) ||
-      fetch(url, { method: "POST", body: blob, keepalive: true });
-  } catch {
-    // Silent fail
-  }
+/**
+ * Build the error surfaced when a stream event carries malformed JSON.
+ */
+function streamParseError(
+  event: Extract<SSEJsonEvent<unknown>, { type: "parse-error" }>,
+  res: Response,
+): ElizaApiError {
+  return new ElizaApiError(`Malformed stream event: ${event.error.message}`, {
+    status: res.status,
+    code: "STREAM_ERROR",
+    requestId: res.headers.get("x-request-id"),
+    body: event.raw,
+    cause: event.error,
+  });
 }
 
 // ============================================================================
-// Chat
+// SDK API
 // ============================================================================
 
-export async function chat(
-  messages: ChatMessage[],
-  model = "gpt-4o",
-): Promise<ChatResponse> {
-  return elizaFetch<ChatResponse>("/api/v1/chat/completions", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ messages, model }),
-  });
-}
-
-export async function* chatStream(
-  messages: ChatMessage[],
-  model = "gpt-4o",
-): AsyncGenerator<StreamChunk> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...getAuthHeaders(),
-  };
-  if (appId) headers["X-App-Id"] = appId;
-
-  const res = await fetch(`${apiBase}/api/v1/chat/completions`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ messages, model, stream: true }),
-  });
-
-  if (!res.ok)
-    throw new Error(`Eliza API Error (${res.status}): ${await res.text()}`);
-
-  const reader = res.body?.getReader();
-  if (!reader) throw new Error("No response body");
-
-  const decoder = new TextDecoder();
-  let buffer = "";
-
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
-
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
+/**
+ * Create the SDK functions for one client.
+ * Every endpoint goes through the client's request layer.
+ */
+export function createElizaApi(ctx: ElizaClientContext, auth: ElizaAuthApi) {
+  const { apiBase, appId } = ctx;
+  const requests = createRequestLayer(ctx, auth);
 
-    for (const line of lines) {
-      if (line.startsWith("data: ") && !line.includes("[DONE]")) {
-        try {
-          yield JSON.parse(line.slice(6));
-        } catch {
-          /* skip */
-        }
-      }
+  // --------------------------------------------------------------------------
+  // Analytics
+  // --------------------------------------------------------------------------
+
+  const trackedPaths = new Set<string>();
+
+  async function trackPageView(pathname?: string): Promise<void> {
+    if (typeof window === "undefined") return;
+
+    const path = pathname || window.location.pathname;
+    if (trackedPaths.has(path)) return;
+    trackedPaths.add(path);
+
+    try {
+      const payload = {
+        app_id: appId,
+        page_url: window.location.href,
+        pathname: path,
+        referrer: document.referrer,
+        screen_width: window.screen.width,
+        screen_height: window.screen.height,
+      };
+      const url = `${apiBase}/api/v1/track/pageview`;
+      const blob = new Blob([JSON.stringify(payload)], {
+        type: "application/json",
+      });
+      navigator.sendBeacon?.(url, blob) ||
+        ctx.fetch(url, { method: "POST", body: blob, keepalive: true });
+    } catch {
+      // Silent fail
     }
   }
-}
 
-// ============================================================================
-// Image Generation
-// ============================================================================
-
-export async function generateImage(
-  prompt: string,
-  options?: {
-    model?: string;
-    width?: number;
-    height?: number;
-    numImages?: number;
-    aspectRatio?: "1:1" | "16:9" | "9:16" | "4:3" | "3:4";
-    stylePreset?: string;
-  },
-): Promise<ImageResult> {
-  return elizaFetch<ImageResult>("/api/v1/generate-image", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ prompt, ...options }),
-  });
-}
-
-// ============================================================================
-// Video Generation
-// ============================================================================
+  // --------------------------------------------------------------------------
+  // Chat
+  // --------------------------------------------------------------------------
+
+  async function chat(
+    messages: ChatMessage[],
+    model = "gpt-4o",
+    options?: RequestOptions,
+  ): Promise<ChatResponse> {
+    return requests.json<ChatResponse>(
+      "/api/v1/chat/completions",
+      { method: "POST", body: { messages, model } },
+      options,
+    );
+  }
 
-export async function generateVideo(
-  prompt: string,
-  options?: { model?: string; duration?: number },
-): Promise<VideoResult> {
-  return elizaFetch<VideoResult>("/api/v1/generate-video", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ prompt, ...options }),
-  });
-}
+  async function* chatStream(
+    messages: ChatMessage[],
+    model = "gpt-4o",
+    options?: RequestOptions,
+  ): AsyncGenerator<StreamChunk> {
+    const res = await requests.stream(
+      "/api/v1/chat/completions",
+      { method: "POST", body: { messages, model, stream: true } },
+      options,
+    );
 
-// ============================================================================
-// Text-to-Speech
-// ============================================================================
+    for await (const event of readSSEJson<StreamChunk>(res.body)) {
+      if (event.type === "done") return;
+      if (event.type === "parse-error") throw streamParseError(event, res);
+      yield event.data;
+    }
+  }
 
-export async function textToSpeech(
-  text: string,
-  options?: { voiceId?: string; modelId?: string },
-): Promise<Blob> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...getAuthHeaders(),
-  };
-  if (appId) headers["X-App-Id"] = appId;
-
-  const res = await fetch(`${apiBase}/api/elevenlabs/tts`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({
-      text,
-      voiceId: options?.voiceId,
-      modelId: options?.modelId,
-    }),
-  });
+  // --------------------------------------------------------------------------
+  // Image Generation
+  // --------------------------------------------------------------------------
+
+  async function generateImage(
+    prompt: string,
+    options?: ImageOptions & RequestOptions,
+  ): Promise<ImageResult> {
+    const [requestOptions, params] = splitRequestOptions(options);
+    return requests.json<ImageResult>(
+      "/api/v1/generate-image",
+      { method: "POST", body: { prompt, ...params } },
+      requestOptions,
+    );
+  }
 
-  if (!res.ok) {
-    const error = await res.json().catch(() => ({ error: res.statusText }));
-    throw new Error(error.error || "TTS failed");
+  // --------------------------------------------------------------------------
+  // Video Generation
+  // --------------------------------------------------------------------------
+
+  async function generateVideo(
+    prompt: string,
+    options?: { model?: string; duration?: number } & RequestOptions,
+  ): Promise<VideoResult> {
+    const [requestOptions, params] = splitRequestOptions(options);
+    return requests.json<VideoResult>(
+      "/api/v1/generate-video",
+      { method: "POST", body: { prompt, ...params } },
+      requestOptions,
+    );
   }
 
-  return res.blob();
-}
+  // --------------------------------------------------------------------------
+  // Text-to-Speech
+  // --------------------------------------------------------------------------
+
+  async function textToSpeech(
+    text: string,
+    options?: { voiceId?: string; modelId?: string } & RequestOptions,
+  ): Promise<Blob> {
+    const [requestOptions, params] = splitRequestOptions(options);
+    return requests.blob(
+      "/api/elevenlabs/tts",
+      {
+        method: "POST",
+        body: { text, voiceId: params.voiceId, modelId: params.modelId },
+        errorMessage: "TTS failed",
+      },
+      requestOptions,
+    );
+  }
 
-export async function listVoices(): Promise<
-  Array<{ id: string; name: string; category: string }>
-> {
-  return elizaFetch<{
-    voices: Array<{ voice_id: string; name: string; category: string }>;
-  }>("/api/elevenlabs/voices").then((r) =>
-    r.voices.map((v) => ({
+  async function listVoices(
+    options?: RequestOptions,
+  ): Promise<Array<{ id: string; name: string; category: string }>> {
+    const result = await requests.json<{
+      voices: Array<{ voice_id: string; name: string; category: string }>;
+    }>("/api/elevenlabs/voices", {}, options);
+    return result.voices.map((v) => ({
       id: v.voice_id,
       name: v.name,
       category: v.category,
-    })),
-  );
-}
+    }));
+  }
 
-// ============================================================================
-// Embeddings
-// ============================================================================
+  // --------------------------------------------------------------------------
+  // Embeddings
+  // --------------------------------------------------------------------------
+
+  async function createEmbeddings(
+    input: string | string[],
+    model = "text-embedding-3-small",
+    options?: RequestOptions,
+  ): Promise<EmbeddingsResponse> {
+    return requests.json<EmbeddingsResponse>(
+      "/api/v1/embeddings",
+      { method: "POST", body: { input, model } },
+      options,
+    );
+  }
 
-export async function createEmbeddings(
-  input: string | string[],
-  model = "text-embedding-3-small",
-): Promise<EmbeddingsResponse> {
-  return elizaFetch<EmbeddingsResponse>("/api/v1/embeddings", {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ input, model }),
-  });
-}
+  // --------------------------------------------------------------------------
+  // Agents
+  // --------------------------------------------------------------------------
 
-// ============================================================================
-// Agents
-// ============================================================================
+  async function listAgents(options?: RequestOptions): Promise<Agent[]> {
+    const result = await requests.json<{ agents: Agent[] }>(
+      "/api/v1/agents",
+      {},
+      options,
+    );
+    return result.agents || [];
+  }
 
-export async function listAgents(): Promise<Agent[]> {
-  const result = await elizaFetch<{ agents: Agent[] }>("/api/v1/agents", {});
-  return result.agents || [];
-}
+  async function getAgent(
+    agentId: string,
+    options?: RequestOptions,
+  ): Promise<Agent | null> {
+    try {
+      return await requests.json<Agent>(
+        `/api/v1/agents/${agentId}`,
+        {},
+        options,
+      );
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      return null;
+    }
+  }
 
-export async function getAgent(agentId: string): Promise<Agent | null> {
-  try {
-    return await elizaFetch<Agent>(`/api/v1/agents/${agentId}`, {});
-  } catch {
-    return null;
+  async function chatWithAgent(
+    agentId: string,
+    message: string,
+    roomId?: string,
+    options?: RequestOptions,
+  ): Promise<AgentChatResponse> {
+    return requests.json<AgentChatResponse>(
+      `/api/v1/agents/${agentId}/chat`,
+      { method: "POST", body: { message, roomId } },
+      options,
+    );
   }
-}
 
-export async function chatWithAgent(
-  agentId: string,
-  message: string,
-  roomId?: string,
-): Promise<AgentChatResponse> {
-  return elizaFetch<AgentChatResponse>(`/api/v1/agents/${agentId}/chat`, {
-    method: "POST",
-    headers: { "Content-Type": "application/json" },
-    body: JSON.stringify({ message, roomId }),
-  });
-}
+  async function* chatWithAgentStream(
+    agentId: string,
+    message: string,
+    roomId?: string,
+    options?: RequestOptions,
+  ): AsyncGenerator<{ text: string; roomId?: string }> {
+    const res = await requests.stream(
+      `/api/v1/agents/${agentId}/chat/stream`,
+      {
+        method: "POST",
+        body: { message, roomId },
+        errorMessage: "Agent chat error",
+      },
+      options,
+    );
 
-export async function* chatWithAgentStream(
-  agentId: string,
-  message: string,
-  roomId?: string,
-): AsyncGenerator<{ text: string; roomId?: string }> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...getAuthHeaders(),
-  };
-  if (appId) headers["X-App-Id"] = appId;
+    for await (const event of readSSEJson<{ text: string; roomId?: string }>(
+      res.body,
+    )) {
+      if (event.type === "done") return;
+      if (event.type === "parse-error") throw streamParseError(event, res);
+      yield event.data;
+    }
+  }
 
-  const res = await fetch(`${apiBase}/api/v1/agents/${agentId}/chat/stream`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ message, roomId }),
-  });
+  // --------------------------------------------------------------------------
+  // App Characters
+  // --------------------------------------------------------------------------
+
+  async function getAppCharacters(
+    options?: RequestOptions,
+  ): Promise<AppCharacter[]> {
+    if (!appId) return [];
+    try {
+      const result = await requests.json<{
+        success: boolean;
+        characters: AppCharacter[];
+      }>(`/api/v1/apps/${appId}/characters`, {}, options);
+      return result.characters || [];
+    } catch (e) {
+      if (isAbortError(e)) throw e;
+      return [];
+    }
+  }
 
-  if (!res.ok)
-    throw new Error(`Agent chat error (${res.status}): ${await res.text()}`);
+  async function createCharacterRoom(
+    characterId: string,
+    options?: RequestOptions,
+  ): Promise<Room> {
+    const data = await requests.json<{
+      roomId?: string;
+      room?: { id: string };
+      characterName?: string;
+      characterAvatar?: string;
+    }>(
+      "/api/eliza/rooms",
+      {
+        method: "POST",
+        body: { characterId },
+        errorMessage: "Failed to create room",
+      },
+      options,
+    );
+    return {
+      id: (data.roomId || data.room?.id) as string,
+      characterId,
+      characterName: data.characterName,
+      characterAvatar: data.characterAvatar,
+    };
+  }
 
-  const reader = res.body?.getReader();
-  if (!reader) throw new Error("No response body");
+  async function getCharacterRooms(options?: RequestOptions): Promise<Room[]> {
+    const data = await requests.json<{
+      rooms?: Array<{
+        id: string;
+        agentId: string;
+        agentName?: string;
+        agentAvatar?: string;
+        lastMessage?: string;
+        lastMessageAt?: string;
+      }>;
+    }>("/api/eliza/rooms", { errorMessage: "Failed to get rooms" }, options);
+
+    return (data.rooms || []).map((room) => ({
+      id: room.id,
+      characterId: room.agentId,
+      characterName: room.agentName,
+      characterAvatar: room.agentAvatar,
+      lastMessage: room.lastMessage,
+      lastMessageAt: room.lastMessageAt,
+    }));
+  }
 
-  const decoder = new TextDecoder();
-  let buffer = "";
+  async function* sendCharacterMessageStream(
+    roomId: string,
+    message: string,
+    options?: {
+      webSearchEnabled?: boolean;
+      createImageEnabled?: boolean;
+      imageModel?: string;
+    } & RequestOptions,
+  ): AsyncGenerator<CharacterStreamEvent> {
+    const [requestOptions, params] = splitRequestOptions(options);
+
+    let res: StreamResponse;
+    try {
+      res = await requests.stream(
+        `/api/eliza/rooms/${roomId}/messages/stream`,
+        {
+          method: "POST",
+          body: {
+            text: message,
+            appId,
+            webSearchEnabled: params.webSearchEnabled ?? true,
+            createImageEnabled: params.createImageEnabled ?? false,
+            ...(params.imageModel && { imageModel: params.imageModel }),
+          },
+          errorMessage: "Failed to send message",
+        },
+        requestOptions,
+      );
+    } catch (e) {
+      if (!(e instanceof ElizaApiError)) throw e;
+      yield { type: "error", error: e.message, cause: e };
+      return;
+    }
 
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
+    for await (const event of readSSEJson<Record<string, unknown>>(res.body)) {
+      if (event.type === "done") break;
 
-    buffer += decoder.decode(value, { stream: true });
-    const lines = buffer.split("\n");
-    buffer = lines.pop() || "";
+      if (event.type === "parse-error") {
+        const cause = streamParseError(event, res);
+        yield { type: "error", error: cause.message, cause };
+        continue;
+      }
 
-    for (const line of lines) {
-      if (line.startsWith("data: ") && !line.includes("[DONE]")) {
-        try {
-          yield JSON.parse(line.slice(6));
-        } catch {
-          /* skip */
+      const data = event.data;
+      switch (event.event) {
+        case "chunk":
+          yield {
+            type: "chunk",
+            text: data.chunk as string,
+            messageId: data.messageId as string,
+          };
+          break;
+        case "message":
+          yield data.type === "thinking"
+            ? { type: "thinking", message: data as unknown as StreamingMessage }
+            : { type: "message", message: data as unknown as StreamingMessage };
+          break;
+        case "error": {
+          const error =
+            (data.message as string) ||
+            (data.error as string) ||
+            "Unknown error";
+          yield {
+            type: "error",
+            error,
+            cause: new ElizaApiError(error, {
+              status: res.status,
+              code: (data.code as string) ?? "STREAM_ERROR",
+              body: data,
+            }),
+          };
+          break;
         }
+        case "done":
+          yield { type: "done" };
+          return;
       }
     }
-  }
-}
 
-// ============================================================================
-// App Characters
-// ============================================================================
-
-export async function getAppCharacters(): Promise<AppCharacter[]> {
-  if (!appId) return [];
-  try {
-    const result = await elizaFetch<{
-      success: boolean;
-      characters: AppCharacter[];
-    }>(`/api/v1/apps/${appId}/characters`);
-    return result.characters || [];
-  } catch {
-    return [];
+    yield { type: "done" };
   }
-}
 
-export async function createCharacterRoom(characterId: string): Promise<Room> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...getAuthHeaders(),
-  };
-  if (appId) headers["X-App-Id"] = appId;
+  async function sendCharacterMessage(
+    roomId: string,
+    message: string,
+    options?: {
+      webSearchEnabled?: boolean;
+      createImageEnabled?: boolean;
+      imageModel?: string;
+      onChunk?: (text: string) => void;
+      onThinking?: () => void;
+    } & RequestOptions,
+  ): Promise<{ text: string; roomId: string }> {
+    let fullText = "";
+
+    for await (const event of sendCharacterMessageStream(
+      roomId,
+      message,
+      options,
+    )) {
+      switch (event.type) {
+        case "chunk":
+          fullText += event.text;
+          options?.onChunk?.(event.text);
+          break;
+        case "thinking":
+          options?.onThinking?.();
+          break;
+        case "error":
+          throw event.cause;
+      }
+    }
 
-  const res = await fetch(`${apiBase}/api/eliza/rooms`, {
-    method: "POST",
-    headers,
-    body: JSON.stringify({ characterId }),
-  });
+    return { text: fullText, roomId };
+  }
 
-  if (!res.ok)
-    throw new Error(
-      `Failed to create room (${res.status}): ${await res.text()}`,
+  // --------------------------------------------------------------------------
+  // File Upload
+  // --------------------------------------------------------------------------
+
+  async function uploadFile(
+    file: File,
+    filename?: string,
+    options?: RequestOptions,
+  ): Promise<UploadResult> {
+    const formData = new FormData();
+    formData.append("file", file, filename || file.name);
+
+    return requests.json<UploadResult>(
+      "/api/v1/upload",
+      { method: "POST", body: formData, errorMessage: "Upload error" },
+      options,
     );
+  }
+
+  // --------------------------------------------------------------------------
+  // Credits
+  // --------------------------------------------------------------------------
+
+  async function getBalance(options?: RequestOptions): Promise<BalanceResult> {
+    if (auth.isAuthenticated() && appId) {
+      return requests.json<BalanceResult>(
+        `/api/v1/app-credits/balance?app_id=${appId}`,
+        {},
+        options,
+      );
+    }
+    return requests.json<BalanceResult>("/api/v1/credits/balance", {}, options);
+  }
 
-  const data = await res.json();
   return {
-    id: data.roomId || data.room?.id,
-    characterId,
-    characterName: data.characterName,
-    characterAvatar: data.characterAvatar,
+    trackPageView,
+    chat,
+    chatStream,
+    generateImage,
+    generateVideo,
+    textToSpeech,
+    listVoices,
+    createEmbeddings,
+    listAgents,
+    getAgent,
+    chatWithAgent,
+    chatWithAgentStream,
+    getAppCharacters,
+    createCharacterRoom,
+    getCharacterRooms,
+    sendCharacterMessageStream,
+    sendCharacterMessage,
+    uploadFile,
+    getBalance,
   };
 }
 
-export async function getCharacterRooms(): Promise<Room[]> {
-  const headers: Record<string, string> = { ...getAuthHeaders() };
-  if (appId) headers["X-App-Id"] = appId;
-
-  const res = await fetch(`${apiBase}/api/eliza/rooms`, { headers });
-  if (!res.ok)
-    throw new Error(`Failed to get rooms (${res.status}): ${await res.text()}`);
-
-  const data = await res.json();
-  return (data.rooms || []).map(
-    (room: {
-      id: string;
-      agentId: string;
-      agentName?: string;
-      agentAvatar?: string;
-      lastMessage?: string;
-      lastMessageAt?: string;
-    }) => ({
-      id: room.id,
-      characterId: room.agentId,
-      characterName: room.agentName,
-      characterAvatar: room.agentAvatar,
-      lastMessage: room.lastMessage,
-      lastMessageAt: room.lastMessageAt,
-    }),
-  );
-}
+export type ElizaApi = ReturnType<typeof createElizaApi>;
 
-export async function* sendCharacterMessageStream(
-  roomId: string,
-  message: string,
-  options?: {
-    webSearchEnabled?: boolean;
-    createImageEnabled?: boolean;
-    imageModel?: string;
-  },
-): AsyncGenerator<
-  | { type: "chunk"; text: string; messageId: string }
-  | { type: "message"; message: StreamingMessage }
-  | { type: "thinking"; message: StreamingMessage }
-  | { type: "error"; error: string }
-  | { type: "done" }
-> {
-  const headers: Record<string, string> = {
-    "Content-Type": "application/json",
-    ...getAuthHeaders(),
-  };
-  if (appId) headers["X-App-Id"] = appId;
-
-  const res = await fetch(
-    `${apiBase}/api/eliza/rooms/${roomId}/messages/stream`,
-    {
-      method: "POST",
-      headers,
-      body: JSON.stringify({
-        text: message,
-        appId,
-        webSearchEnabled: options?.webSearchEnabled ?? true,
-        createImageEnabled: options?.createImageEnabled ?? false,
-        ...(options?.imageModel && { imageModel: options.imageModel }),
-      }),
-    },
-  );
-
-  if (!res.ok) {
-    yield {
-      type: "error",
-      error: `Failed to send message (${res.status}): ${await res.text()}`,
-    };
-    return;
-  }
+// ============================================================================
+// Default Instance
+// ============================================================================
 
-  const reader = res.body?.getReader();
-  if (!reader) {
-    yield { type: "error", error: "No response body" };
-    return;
-  }
+// Module-level functions run against the default client (see eliza-client.ts).
 
-  const decoder = new TextDecoder();
-  let buffer = "";
+export const trackPageView: ElizaApi["trackPageView"] = (...args) =>
+  getDefaultClient().trackPageView(...args);
 
-  while (true) {
-    const { done, value } = await reader.read();
-    if (done) break;
+export const chat: ElizaApi["chat"] = (...args) =>
+  getDefaultClient().chat(...args);
 
-    buffer += decoder.decode(value, { stream: true });
-    const messages = buffer.split("\n\n");
-    buffer = messages.pop() || "";
+export const chatStream: ElizaApi["chatStream"] = (...args) =>
+  getDefaultClient().chatStream(...args);
 
-    for (const msg of messages) {
-      if (!msg.trim()) continue;
+export const generateImage: ElizaApi["generateImage"] = (...args) =>
+  getDefaultClient().generateImage(...args);
 
-      const lines = msg.split("\n");
-      let eventType = "message";
-      let dataStr = "";
+export const generateVideo: ElizaApi["generateVideo"] = (...args) =>
+  getDefaultClient().generateVideo(...args);
 
-      for (const line of lines) {
-        if (line.startsWith("event: ")) eventType = line.slice(7).trim();
-        else if (line.startsWith("data: ")) dataStr += line.slice(6);
-      }
+export const textToSpeech: ElizaApi["textToSpeech"] = (...args) =>
+  getDefaultClient().textToSpeech(...args);
 
-      if (!dataStr) continue;
-
-      try {
-        const data = JSON.parse(dataStr);
-        switch (eventType) {
-          case "chunk":
-            yield {
-              type: "chunk",
-              text: data.chunk,
-              messageId: data.messageId,
-            };
-            break;
-          case "message":
-            yield data.type === "thinking"
-              ? { type: "thinking", message: data }
-              : { type: "message", message: data };
-            break;
-          case "error":
-            yield {
-              type: "error",
-              error: data.message || data.error || "Unknown error",
-            };
-            break;
-          case "done":
-            yield { type: "done" };
-            break;
-        }
-      } catch {
-        /* skip */
-      }
-    }
-  }
+export const listVoices: ElizaApi["listVoices"] = (...args) =>
+  getDefaultClient().listVoices(...args);
 
-  yield { type: "done" };
-}
+export const createEmbeddings: ElizaApi["createEmbeddings"] = (...args) =>
+  getDefaultClient().createEmbeddings(...args);
 
-export async function sendCharacterMessage(
-  roomId: string,
-  message: string,
-  options?: {
-    webSearchEnabled?: boolean;
-    createImageEnabled?: boolean;
-    imageModel?: string;
-    onChunk?: (text: string) => void;
-    onThinking?: () => void;
-  },
-): Promise<{ text: string; roomId: string }> {
-  let fullText = "";
-
-  for await (const event of sendCharacterMessageStream(
-    roomId,
-    message,
-    options,
-  )) {
-    switch (event.type) {
-      case "chunk":
-        fullText += event.text;
-        options?.onChunk?.(event.text);
-        break;
-      case "thinking":
-        options?.onThinking?.();
-        break;
-      case "error":
-        throw new Error(event.error);
-    }
-  }
+export const listAgents: ElizaApi["listAgents"] = (...args) =>
+  getDefaultClient().listAgents(...args);
 
-  return { text: fullText, roomId };
-}
+export const getAgent: ElizaApi["getAgent"] = (...args) =>
+  getDefaultClient().getAgent(...args);
 
-// ============================================================================
-// File Upload
-// ============================================================================
+export const chatWithAgent: ElizaApi["chatWithAgent"] = (...args) =>
+  getDefaultClient().chatWithAgent(...args);
 
-export async function uploadFile(
-  file: File,
-  filename?: string,
-): Promise<UploadResult> {
-  const formData = new FormData();
-  formData.append("file", file, filename || file.name);
+export const chatWithAgentStream: ElizaApi["chatWithAgentStream"] = (...args) =>
+  getDefaultClient().chatWithAgentStream(...args);
 
-  const headers: Record<string, string> = { ...getAuthHeaders() };
-  if (appId) headers["X-App-Id"] = appId;
+export const getAppCharacters: ElizaApi["getAppCharacters"] = (...args) =>
+  getDefaultClient().getAppCharacters(...args);
 
-  const res = await fetch(`${apiBase}/api/v1/upload`, {
-    method: "POST",
-    headers,
-    body: formData,
-  });
+export const createCharacterRoom: ElizaApi["createCharacterRoom"] = (...args) =>
+  getDefaultClient().createCharacterRoom(...args);
 
-  if (!res.ok)
-    throw new Error(`Upload error (${res.status}): ${await res.text()}`);
-  return res.json();
-}
+export const getCharacterRooms: ElizaApi["getCharacterRooms"] = (...args) =>
+  getDefaultClient().getCharacterRooms(...args);
 
-// ============================================================================
-// Credits
-// ============================================================================
+export const sendCharacterMessageStream: ElizaApi["sendCharacterMessageStream"] =
+  (...args) => getDefaultClient().sendCharacterMessageStream(...args);
 
-export async function getBalance(): Promise<BalanceResult> {
-  if (isAuthenticated() && appId) {
-    return elizaFetch<BalanceResult>(
-      `/api/v1/app-credits/balance?app_id=${appId}`,
-    );
-  }
-  return elizaFetch<BalanceResult>("/api/v1/credits/balance");
-}
+export const sendCharacterMessage: ElizaApi["sendCharacterMessage"] = (
+  ...args
+) => getDefaultClient().sendCharacterMessage(...args);
+
+export const uploadFile: ElizaApi["uploadFile"] = (...args) =>
+  getDefaultClient().uploadFile(...args);
+
+export const getBalance: ElizaApi["getBalance"] = (...args) =>
+  getDefaultClient().getBalance(...args);
 
 // ============================================================================
 // Export